@@ -0,0 +1,159 @@
+import { CreepRole } from "@/Creep/types";
+
+/**
+ * creep 主要行走的地形
+ * 决定了需要多少 MOVE 才能保持每 tick 移动一格
+ */
+export type TerrainType = "road" | "plain" | "swamp";
+
+/**
+ * 强化计划，每种身体部件使用的强化化合物
+ */
+export type BoostPlan = { [part in BodyPartConstant]?: MineralBoostConstant };
+
+/**
+ * 生成身体部件时的可选项
+ */
+export interface BodyOptions {
+  terrain?: TerrainType; // 主要行走的地形，默认使用角色配置
+  boost?: BoostPlan; // 强化计划
+  maxUnits?: number; // 最多重复多少个单元，不能超过角色模板的上限
+}
+
+/**
+ * 角色的身体模板
+ */
+interface BodyTemplate {
+  unit: BodyPartConstant[]; // 会重复添加的部件单元（不含 MOVE）
+  fixed?: BodyPartConstant[]; // 只添加一次的部件（不含 MOVE）
+  maxUnits: number; // 最多重复多少个单元
+  terrain: TerrainType; // 默认行走的地形
+}
+
+/**
+ * 每个非 MOVE 部件在不同地形上每格产生的疲劳值
+ */
+const TERRAIN_FATIGUE: { [terrain in TerrainType]: number } = {
+  road: 1,
+  plain: 2,
+  swamp: 10
+};
+
+/**
+ * 每个 MOVE 部件每 tick 降低的疲劳值
+ */
+const MOVE_POWER = 2;
+
+/**
+ * 部件在身体中的排序，越小越靠前（越先被打掉）
+ * MOVE 和 HEAL 放在最后，保证残血时还能移动和治疗
+ */
+const PART_ORDER: { [part in BodyPartConstant]: number } = {
+  [TOUGH]: 0,
+  [WORK]: 1,
+  [CARRY]: 1,
+  [ATTACK]: 1,
+  [RANGED_ATTACK]: 1,
+  [CLAIM]: 1,
+  [MOVE]: 2,
+  [HEAL]: 3
+};
+
+/**
+ * 各角色的身体模板
+ */
+const BODY_TEMPLATES: { [role in CreepRole]: BodyTemplate } = {
+  [CreepRole.Harvester]: { unit: [WORK], fixed: [CARRY], maxUnits: 6, terrain: "road" },
+  [CreepRole.Miner]: { unit: [WORK, WORK], fixed: [CARRY], maxUnits: 16, terrain: "road" },
+  [CreepRole.Worker]: { unit: [WORK, CARRY], maxUnits: 16, terrain: "road" },
+  [CreepRole.Manager]: { unit: [CARRY, CARRY], maxUnits: 16, terrain: "road" },
+  [CreepRole.Claimer]: { unit: [CLAIM], maxUnits: 1, terrain: "plain" },
+  [CreepRole.Reserver]: { unit: [CLAIM], maxUnits: 2, terrain: "plain" },
+  [CreepRole.Signer]: { unit: [], maxUnits: 0, terrain: "plain" },
+  [CreepRole.PbAttacker]: { unit: [ATTACK], maxUnits: 20, terrain: "plain" },
+  [CreepRole.PbHealer]: { unit: [HEAL], maxUnits: 25, terrain: "plain" },
+  [CreepRole.PbCarrier]: { unit: [CARRY], maxUnits: 25, terrain: "plain" },
+  [CreepRole.RemoteHarvester]: { unit: [WORK], fixed: [CARRY], maxUnits: 6, terrain: "plain" },
+  [CreepRole.RemoteHelper]: { unit: [CARRY, CARRY], fixed: [WORK], maxUnits: 16, terrain: "road" },
+  [CreepRole.Defender]: { unit: [ATTACK, ATTACK], fixed: [TOUGH, TOUGH], maxUnits: 10, terrain: "plain" }
+};
+
+/**
+ * 计算身体部件的能量消耗
+ *
+ * @param body 身体部件
+ */
+export function getBodyCost(body: BodyPartConstant[]): number {
+  let cost = 0;
+  for (const part of body) cost += BODYPART_COST[part];
+  return cost;
+}
+
+/**
+ * 获取 MOVE 部件的强化倍率
+ *
+ * @param boost 强化计划
+ */
+function getMoveBoostFactor(boost?: BoostPlan): number {
+  const compound = boost?.[MOVE];
+  if (!compound) return 1;
+  const effect: { [action: string]: number } | undefined = BOOSTS[MOVE][compound as keyof typeof BOOSTS.move];
+  return effect?.fatigue ?? 1;
+}
+
+/**
+ * 计算保持每 tick 移动一格所需的 MOVE 数量
+ *
+ * @param partCount 非 MOVE 部件的数量
+ * @param terrain 主要行走的地形
+ * @param boost 强化计划
+ */
+export function getMoveCount(partCount: number, terrain: TerrainType, boost?: BoostPlan): number {
+  const fatigue = partCount * TERRAIN_FATIGUE[terrain];
+  return Math.max(1, Math.ceil(fatigue / (MOVE_POWER * getMoveBoostFactor(boost))));
+}
+
+/**
+ * 对身体部件排序：TOUGH > 工作部件 > MOVE > HEAL
+ * 最后留一个 MOVE 放在末尾，保证只剩最后一个部件时仍然可以移动
+ *
+ * @param parts 非 MOVE 部件
+ * @param moveCount MOVE 数量
+ */
+export function sortBody(parts: BodyPartConstant[], moveCount: number): BodyPartConstant[] {
+  const body = [...parts];
+  for (let i = 0; i < moveCount - 1; i++) body.push(MOVE);
+  body.sort((a, b) => PART_ORDER[a] - PART_ORDER[b]);
+  if (moveCount > 0) body.push(MOVE);
+  return body;
+}
+
+/**
+ * 生成身体部件（纯函数版本）
+ * 在能量预算和 50 个部件的限制内尽量多地重复角色的部件单元，并补齐所需的 MOVE
+ *
+ * @param role 角色
+ * @param energy 能量预算
+ * @param options 地形和强化计划
+ * @returns 排好序的身体部件，预算连一个单元都不够时返回空数组
+ */
+export function buildBodyPure(role: CreepRole, energy: number, options: BodyOptions = {}): BodyPartConstant[] {
+  const template = BODY_TEMPLATES[role];
+  const terrain = options.terrain || template.terrain;
+  const fixed = template.fixed || [];
+  const maxUnits = Math.min(template.maxUnits, options.maxUnits ?? template.maxUnits);
+
+  let best: BodyPartConstant[] = [];
+  // 没有单元的角色（例如只需要 MOVE 的 signer）也至少尝试一次
+  for (let units = template.unit.length > 0 ? 1 : 0; units <= maxUnits; units++) {
+    const parts = [...fixed];
+    for (let i = 0; i < units; i++) parts.push(...template.unit);
+
+    const moveCount = getMoveCount(parts.length, terrain, options.boost);
+    const body = sortBody(parts, moveCount);
+    if (body.length > MAX_CREEP_SIZE || getBodyCost(body) > energy) break;
+    best = body;
+  }
+
+  return best;
+}
@@ -0,0 +1,53 @@
+import { roles } from "@/Creep/roles";
+import { CreepConfig, CreepStage } from "@/Creep/types";
+import { parkCreep, reportOnce } from "@/Creep/utils";
+import { boostCreep } from "@/Room/labs";
+
+/**
+ * 获取角色配置的第一个阶段
+ *
+ * @param config 角色配置
+ */
+const getFirstStage = function (config: CreepConfig): CreepStage {
+  if (config.prepare) return CreepStage.Prepare;
+  return config.source ? CreepStage.Source : CreepStage.Target;
+};
+
+/**
+ * creep 运行器
+ * 会对每个 creep 执行一次，根据角色执行对应阶段的行为，阶段完成后切换到下一阶段
+ *
+ * @param creep 要运行的 creep
+ */
+export const creepRunner = function (creep: Creep): void {
+  if (creep.spawning) return;
+
+  const config = roles[creep.memory.role];
+  if (!config) {
+    reportOnce(creep, `的角色 ${creep.memory.role} 没有对应的行为配置，已停放`);
+    parkCreep(creep);
+    return;
+  }
+
+  // 强化完成（或者放弃）之前不开始工作
+  if (creep.memory.boost && !boostCreep(creep)) return;
+
+  if (!creep.memory.stage) creep.memory.stage = getFirstStage(config);
+
+  switch (creep.memory.stage) {
+    case CreepStage.Prepare:
+      if (!config.prepare || config.prepare(creep)) {
+        creep.memory.stage = config.source ? CreepStage.Source : CreepStage.Target;
+      }
+      break;
+    case CreepStage.Source:
+      if (!config.source || config.source(creep)) creep.memory.stage = CreepStage.Target;
+      break;
+    case CreepStage.Target:
+      if (config.target(creep) && config.source) creep.memory.stage = CreepStage.Source;
+      break;
+    default:
+      // 内存中的阶段已经失效（例如角色配置改动过），从头开始
+      creep.memory.stage = getFirstStage(config);
+  }
+};
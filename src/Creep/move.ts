@@ -0,0 +1,72 @@
+import { CreepRole } from "@/Creep/types";
+import { isDefenseMode } from "@/Room/defense";
+import { getSafeMatrix } from "@/Room/safeArea";
+
+/**
+ * 防御模式下只能在 rampart 内侧移动的角色
+ */
+const SAFE_ROLES: CreepRole[] = [CreepRole.Manager, CreepRole.Worker];
+
+/**
+ * 防御模式下的路径缓存时间，敌人移动得很快，路径需要经常更新
+ */
+const DEFENSE_REUSE_PATH = 3;
+
+/**
+ * 防御模式下寻路使用的成本矩阵缓存，每 tick 每个房间只生成一次
+ */
+const defenseMatrixCache: { [roomName: string]: { time: number; matrix: CostMatrix } } = {};
+
+/**
+ * 获取防御模式下寻路使用的成本矩阵：rampart 外侧、不可通行的建筑和 creep 为 0xff，道路为 1
+ *
+ * @param room 房间
+ * @param safeMatrix 房间的暴露区域成本矩阵
+ */
+const getDefenseMatrix = function (room: Room, safeMatrix: CostMatrix): CostMatrix {
+  const cached = defenseMatrixCache[room.name];
+  if (cached && cached.time === Game.time) return cached.matrix;
+
+  const matrix = safeMatrix.clone();
+  for (const structure of room.find(FIND_STRUCTURES)) {
+    const { x, y } = structure.pos;
+    if (matrix.get(x, y) === 0xff) continue;
+    if (structure.structureType === STRUCTURE_ROAD) matrix.set(x, y, 1);
+    else if (structure.structureType === STRUCTURE_CONTAINER) continue;
+    else if (structure.structureType === STRUCTURE_RAMPART && (structure.my || structure.isPublic)) continue;
+    else matrix.set(x, y, 0xff);
+  }
+  for (const creep of room.find(FIND_CREEPS)) matrix.set(creep.pos.x, creep.pos.y, 0xff);
+
+  defenseMatrixCache[room.name] = { time: Game.time, matrix };
+  return matrix;
+};
+
+/**
+ * 移动到目标位置
+ * 防御模式下 SAFE_ROLES 中的角色不会走出 rampart
+ *
+ * @param creep 要移动的 creep
+ * @param target 目标
+ * @param opts 移动参数
+ */
+export const goTo = function (
+  creep: Creep,
+  target: RoomPosition | { pos: RoomPosition },
+  opts: MoveToOpts = {}
+): ScreepsReturnCode {
+  if (!SAFE_ROLES.includes(creep.memory.role) || !isDefenseMode(creep.room)) return creep.moveTo(target, opts);
+
+  const safeMatrix = getSafeMatrix(creep.room);
+  // 已经在 rampart 外面的话就不限制了，先让它回来
+  if (!safeMatrix || safeMatrix.get(creep.pos.x, creep.pos.y) === 0xff) return creep.moveTo(target, opts);
+
+  const roomName = creep.room.name;
+  const matrix = getDefenseMatrix(creep.room, safeMatrix);
+  return creep.moveTo(target, {
+    ...opts,
+    maxRooms: 1,
+    reusePath: DEFENSE_REUSE_PATH,
+    costCallback: callbackRoom => (callbackRoom === roomName ? matrix : undefined)
+  });
+};
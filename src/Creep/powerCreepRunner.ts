@@ -0,0 +1,29 @@
+/**
+ * 剩余多少 tick 时前往 powerSpawn 续命
+ */
+const RENEW_TICKS = 500;
+
+/**
+ * powerCreep 运行器
+ * 会对每个 pc 执行一次（包括还没有出生的 pc）
+ *
+ * @param creep 要运行的 pc
+ */
+export const powerCreepRunner = function (creep: PowerCreep): void {
+  // 没有出生的 pc 没有 room
+  if (!creep.room || creep.ticksToLive === undefined) return;
+
+  const controller = creep.room.controller;
+  // 房间还没有启用 power 的话先启用
+  if (controller?.my && !controller.isPowerEnabled) {
+    if (creep.enableRoom(controller) === ERR_NOT_IN_RANGE) creep.moveTo(controller);
+    return;
+  }
+
+  if (creep.ticksToLive < RENEW_TICKS) {
+    const powerSpawn = creep.room.find<StructurePowerSpawn>(FIND_MY_STRUCTURES, {
+      filter: s => s.structureType === STRUCTURE_POWER_SPAWN
+    })[0];
+    if (powerSpawn && creep.renew(powerSpawn) === ERR_NOT_IN_RANGE) creep.moveTo(powerSpawn);
+  }
+};
@@ -0,0 +1,21 @@
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+
+/**
+ * 占领者
+ * 前往 memory.targetRoom 并占领其控制器
+ */
+export const claimer: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  target: creep => {
+    const controller = creep.room.controller;
+    if (!controller || controller.my) return false;
+
+    const result =
+      controller.reservation || controller.owner
+        ? creep.attackController(controller)
+        : creep.claimController(controller);
+    if (result === ERR_NOT_IN_RANGE) creep.moveTo(controller);
+    return false;
+  }
+};
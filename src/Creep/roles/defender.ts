@@ -0,0 +1,57 @@
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+
+/**
+ * 找到离敌人最近并且没有被其他 creep 占用的 rampart
+ *
+ * @param creep defender
+ * @param hostile 要攻击的敌人
+ */
+const getRampartNear = function (creep: Creep, hostile: Creep): StructureRampart | undefined {
+  let best: StructureRampart | undefined;
+  let bestRange = Infinity;
+  for (const structure of creep.room.find(FIND_MY_STRUCTURES)) {
+    if (structure.structureType !== STRUCTURE_RAMPART) continue;
+    const occupied = structure.pos.lookFor(LOOK_CREEPS).some(other => other.name !== creep.name);
+    const range = structure.pos.getRangeTo(hostile);
+    if (!occupied && range < bestRange) {
+      best = structure;
+      bestRange = range;
+    }
+  }
+  return best;
+};
+
+/**
+ * 没有敌人时前往最近的 spawn 回收自己
+ *
+ * @param creep defender
+ */
+const recycle = function (creep: Creep): void {
+  const spawn = creep.pos.findClosestByRange(FIND_MY_SPAWNS);
+  if (!spawn) return;
+  if (spawn.recycleCreep(creep) === ERR_NOT_IN_RANGE) creep.moveTo(spawn, { range: 1 });
+};
+
+/**
+ * 防御者
+ * 守在离敌人最近的 rampart 上攻击相邻的敌人，房间里没有 rampart 时直接追击
+ * 敌人全部离开后回收
+ */
+export const defender: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  target: creep => {
+    const hostile = creep.pos.findClosestByRange(FIND_HOSTILE_CREEPS);
+    if (!hostile) {
+      recycle(creep);
+      return false;
+    }
+
+    if (creep.pos.isNearTo(hostile)) creep.attack(hostile);
+
+    const rampart = getRampartNear(creep, hostile);
+    if (!rampart) creep.moveTo(hostile, { reusePath: 0 });
+    else if (!creep.pos.isEqualTo(rampart.pos)) creep.moveTo(rampart, { reusePath: 3 });
+    return false;
+  }
+};
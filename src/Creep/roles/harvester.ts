@@ -0,0 +1,77 @@
+import { CreepConfig, CreepRole } from "@/Creep/types";
+import { buildSite, fillSpawnStructure, upgradeController } from "@/Creep/utils";
+import { getTargetLink } from "@/Room/links";
+
+/**
+ * 为 creep 挑选绑定人数最少的能量源
+ *
+ * @param creep 要绑定能量源的 creep
+ */
+const pickSource = function (creep: Creep): Source | undefined {
+  const sources = creep.room.find(FIND_SOURCES);
+  const bound: { [id: string]: number } = {};
+  for (const name in Game.creeps) {
+    const memory = Game.creeps[name].memory;
+    if (memory.role === CreepRole.Harvester && memory.sourceId) {
+      bound[memory.sourceId] = (bound[memory.sourceId] || 0) + 1;
+    }
+  }
+
+  let result: Source | undefined;
+  for (const source of sources) {
+    if (!result || (bound[source.id] || 0) < (bound[result.id] || 0)) result = source;
+  }
+  return result;
+};
+
+/**
+ * 获取能量源旁边的 container
+ */
+const getSourceContainer = function (source: Source): StructureContainer | undefined {
+  return source.pos.findInRange<StructureContainer>(FIND_STRUCTURES, 1, {
+    filter: s => s.structureType === STRUCTURE_CONTAINER
+  })[0];
+};
+
+/**
+ * 采集者
+ * 绑定一个能量源，有 container 时站在上面一直采集（有 link 时填充 link），否则自己把能量运回去
+ */
+export const harvester: CreepConfig = {
+  prepare: creep => {
+    if (!creep.memory.sourceId) creep.memory.sourceId = pickSource(creep)?.id;
+    const source = creep.memory.sourceId && Game.getObjectById(creep.memory.sourceId);
+    if (!source) return false;
+
+    const container = getSourceContainer(source);
+    if (container) {
+      if (creep.pos.isEqualTo(container.pos)) return true;
+      creep.moveTo(container);
+      return false;
+    }
+
+    if (creep.pos.isNearTo(source)) return true;
+    creep.moveTo(source);
+    return false;
+  },
+  source: creep => {
+    const source = creep.memory.sourceId && Game.getObjectById(creep.memory.sourceId);
+    if (!source) return false;
+
+    if (creep.harvest(source) === ERR_NOT_IN_RANGE) creep.moveTo(source);
+    // 站在 container 上时采集溢出的能量会直接掉进 container，不需要运送
+    // 旁边有 source link 时先把能量送进 link，由 link 网络送往控制器和 storage
+    const container = getSourceContainer(source);
+    if (container && creep.pos.isEqualTo(container.pos)) {
+      const link = getTargetLink(creep.room, source.id);
+      if (link && creep.store.getFreeCapacity() === 0) creep.transfer(link, RESOURCE_ENERGY);
+      return false;
+    }
+
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    if (!fillSpawnStructure(creep) && !buildSite(creep)) upgradeController(creep);
+    return creep.store[RESOURCE_ENERGY] === 0;
+  }
+};
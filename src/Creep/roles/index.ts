@@ -0,0 +1,34 @@
+import { claimer } from "./claimer";
+import { defender } from "./defender";
+import { harvester } from "./harvester";
+import { manager } from "./manager";
+import { miner } from "./miner";
+import { pbAttacker } from "./pbAttacker";
+import { pbCarrier } from "./pbCarrier";
+import { pbHealer } from "./pbHealer";
+import { remoteHarvester } from "./remoteHarvester";
+import { remoteHelper } from "./remoteHelper";
+import { reserver } from "./reserver";
+import { signer } from "./signer";
+import { worker } from "./worker";
+import { CreepConfig, CreepRole } from "@/Creep/types";
+
+/**
+ * 所有角色的行为配置
+ * 不在这里的角色会被 creepRunner 停放
+ */
+export const roles: { [role in CreepRole]?: CreepConfig } = {
+  [CreepRole.Harvester]: harvester,
+  [CreepRole.Miner]: miner,
+  [CreepRole.Worker]: worker,
+  [CreepRole.Manager]: manager,
+  [CreepRole.Claimer]: claimer,
+  [CreepRole.Signer]: signer,
+  [CreepRole.Reserver]: reserver,
+  [CreepRole.RemoteHarvester]: remoteHarvester,
+  [CreepRole.RemoteHelper]: remoteHelper,
+  [CreepRole.PbAttacker]: pbAttacker,
+  [CreepRole.PbHealer]: pbHealer,
+  [CreepRole.PbCarrier]: pbCarrier,
+  [CreepRole.Defender]: defender
+};
@@ -0,0 +1,38 @@
+import { goTo } from "@/Creep/move";
+import { CreepConfig } from "@/Creep/types";
+import { fillSpawnStructure, getEnergy } from "@/Creep/utils";
+import { getFactoryTasks } from "@/Room/factory";
+import { getLabTasks } from "@/Room/labs";
+import { getHubLink, getHubLinkDemand } from "@/Room/links";
+import { getTerminalTasks } from "@/Room/terminal";
+import { runTransport } from "@/Room/transport";
+
+/**
+ * 运输者
+ * 优先取出 hub link 中的能量，其次从 storage 或 container 中拿取能量
+ * 填充 spawn、extension 和 tower，controller link 缺能量时装满 hub link，空闲时把能量存回 storage
+ * spawn 和 extension 都填满时负责搬运 lab、factory 和 terminal 的资源
+ */
+export const manager: CreepConfig = {
+  source: creep => {
+    const tasks = [...getLabTasks(creep.room), ...getFactoryTasks(creep.room), ...getTerminalTasks(creep.room)];
+    if (runTransport(creep, tasks)) return false;
+
+    // hub link 需要补给 controller link 时不取出其中的能量
+    const hubLink = getHubLink(creep.room);
+    const draining = !!creep.room.storage && getHubLinkDemand(creep.room) === 0;
+    if (hubLink && hubLink.store[RESOURCE_ENERGY] > 0 && draining) {
+      if (creep.withdraw(hubLink, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, hubLink);
+    } else getEnergy(creep);
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    if (!fillSpawnStructure(creep)) {
+      const hubLink = getHubLink(creep.room);
+      const target = hubLink && getHubLinkDemand(creep.room) > 0 ? hubLink : creep.room.storage;
+      if (!target) return false;
+      if (creep.transfer(target, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, target);
+    }
+    return creep.store[RESOURCE_ENERGY] === 0;
+  }
+};
@@ -0,0 +1,33 @@
+import { CreepConfig } from "@/Creep/types";
+
+/**
+ * 矿工
+ * 采集房间内的矿物并存进 terminal 或 storage
+ */
+export const miner: CreepConfig = {
+  prepare: creep => {
+    const mineral = creep.room.find(FIND_MINERALS)[0];
+    if (!mineral) return false;
+
+    if (creep.pos.isNearTo(mineral)) return true;
+    creep.moveTo(mineral);
+    return false;
+  },
+  source: creep => {
+    const mineral = creep.room.find(FIND_MINERALS)[0];
+    if (!mineral || mineral.mineralAmount === 0) return creep.store.getUsedCapacity() > 0;
+
+    const result = creep.harvest(mineral);
+    if (result === ERR_NOT_IN_RANGE) creep.moveTo(mineral);
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    const target = creep.room.terminal || creep.room.storage;
+    if (!target) return false;
+
+    const resourceType = Object.keys(creep.store)[0] as ResourceConstant | undefined;
+    if (!resourceType) return true;
+    if (creep.transfer(target, resourceType) === ERR_NOT_IN_RANGE) creep.moveTo(target);
+    return false;
+  }
+};
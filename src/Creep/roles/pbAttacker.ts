@@ -0,0 +1,37 @@
+import { CreepConfig, CreepRole } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { getBankPos, getCreepOperation, getPartner } from "@/Room/powerBank";
+
+/**
+ * power bank 攻击者
+ * 和同一小组的 pbHealer 一起前往 memory.targetRoom，healer 在身边时才攻击，防止被反伤打死
+ * 行动结束或者 power bank 被打掉后自杀
+ */
+export const pbAttacker: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  target: creep => {
+    const operation = getCreepOperation(creep);
+    if (!operation) {
+      creep.suicide();
+      return false;
+    }
+
+    const pos = getBankPos(operation);
+    const bank = pos.lookFor(LOOK_STRUCTURES).find(s => s.structureType === STRUCTURE_POWER_BANK);
+    if (!bank) {
+      if (creep.room.name === operation.roomName) creep.suicide();
+      else creep.moveTo(pos, { range: 1, reusePath: 20 });
+      return false;
+    }
+
+    if (!creep.pos.isNearTo(bank)) {
+      creep.moveTo(bank, { range: 1, reusePath: 20 });
+      return false;
+    }
+
+    // 血量过半时不等 healer 也可以继续打
+    const healer = getPartner(creep, CreepRole.PbHealer);
+    if ((healer && creep.pos.isNearTo(healer)) || creep.hits > creep.hitsMax / 2) creep.attack(bank);
+    return false;
+  }
+};
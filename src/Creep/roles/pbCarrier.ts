@@ -0,0 +1,61 @@
+import { goTo } from "@/Creep/move";
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { getBankPos, getCreepOperation } from "@/Room/powerBank";
+
+/**
+ * power bank 被打掉之前 carrier 等待的距离，避免挡住 attacker 和 healer
+ */
+const WAIT_RANGE = 3;
+
+/**
+ * power bank 运输者
+ * 在 power bank 旁边等待它被打掉，然后拿取地上和废墟中的 power 运回所属房间
+ * 没有 power 可以拿之后自杀
+ */
+export const pbCarrier: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  source: creep => {
+    const operation = getCreepOperation(creep);
+    if (!operation) {
+      if (creep.store[RESOURCE_POWER] > 0) return true;
+      creep.suicide();
+      return false;
+    }
+
+    const pos = getBankPos(operation);
+    if (creep.room.name !== operation.roomName || !creep.pos.inRangeTo(pos, WAIT_RANGE)) {
+      creep.moveTo(pos, { range: WAIT_RANGE, reusePath: 20 });
+      return false;
+    }
+    if (pos.lookFor(LOOK_STRUCTURES).some(s => s.structureType === STRUCTURE_POWER_BANK)) return false;
+
+    const dropped = creep.pos.findClosestByRange(FIND_DROPPED_RESOURCES, {
+      filter: r => r.resourceType === RESOURCE_POWER
+    });
+    const ruin = dropped
+      ? null
+      : creep.pos.findClosestByRange(FIND_RUINS, { filter: r => r.store[RESOURCE_POWER] > 0 });
+    const target = dropped ?? ruin;
+    if (!target) {
+      // 已经没有 power 了，身上有的话就先运回去
+      if (creep.store[RESOURCE_POWER] > 0) return true;
+      creep.suicide();
+      return false;
+    }
+
+    const result = dropped ? creep.pickup(dropped) : ruin && creep.withdraw(ruin, RESOURCE_POWER);
+    if (result === ERR_NOT_IN_RANGE) creep.moveTo(target, { range: 1, reusePath: 5 });
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    if (!goToRoom(creep, creep.memory.room)) return false;
+
+    const target = creep.room.storage ?? creep.room.terminal;
+    if (!target) return false;
+
+    const result = creep.transfer(target, RESOURCE_POWER);
+    if (result === ERR_NOT_IN_RANGE) goTo(creep, target);
+    return creep.store[RESOURCE_POWER] === 0;
+  }
+};
@@ -0,0 +1,26 @@
+import { CreepConfig, CreepRole } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { getCreepOperation, getPartner } from "@/Room/powerBank";
+
+/**
+ * power bank 治疗者
+ * 跟随同一小组的 pbAttacker 并治疗它，attacker 不在身边时治疗自己
+ * attacker 死亡后或者行动结束后自杀
+ */
+export const pbHealer: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  target: creep => {
+    const attacker = getPartner(creep, CreepRole.PbAttacker);
+    if (!attacker || !getCreepOperation(creep)) {
+      creep.suicide();
+      return false;
+    }
+
+    if (!creep.pos.isNearTo(attacker)) creep.moveTo(attacker, { range: 1, reusePath: 5 });
+
+    if (creep.pos.isNearTo(attacker) && attacker.hits < attacker.hitsMax) creep.heal(attacker);
+    else if (creep.pos.inRangeTo(attacker, 3) && attacker.hits < attacker.hitsMax) creep.rangedHeal(attacker);
+    else if (creep.hits < creep.hitsMax) creep.heal(creep);
+    return false;
+  }
+};
@@ -0,0 +1,42 @@
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { CONTAINER_REPAIR_RATIO, getContainerPos, retreatFromRemote } from "@/Room/remote";
+
+/**
+ * 外矿采集者
+ * 站在外矿能量源旁的 container 上一直采集，container 不存在时自己建造，血量低时自己修理
+ */
+export const remoteHarvester: CreepConfig = {
+  prepare: creep => !retreatFromRemote(creep) && (!creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom)),
+  target: creep => {
+    if (retreatFromRemote(creep)) return false;
+
+    const pos = getContainerPos(creep);
+    if (!pos) return false;
+    if (!creep.pos.isEqualTo(pos)) {
+      creep.moveTo(pos, { reusePath: 20 });
+      return false;
+    }
+
+    const source = creep.memory.sourceId && Game.getObjectById(creep.memory.sourceId);
+    if (!source) return false;
+
+    // 采集满了才建造和修理，其余时间采集的能量会直接掉进 container
+    const container = pos.lookFor(LOOK_STRUCTURES).find(s => s.structureType === STRUCTURE_CONTAINER);
+    if (creep.store.getFreeCapacity() === 0) {
+      const site = pos.lookFor(LOOK_CONSTRUCTION_SITES)[0];
+      if (site) {
+        creep.build(site);
+        return false;
+      }
+      if (container && container.hits < container.hitsMax * CONTAINER_REPAIR_RATIO) {
+        creep.repair(container);
+        return false;
+      }
+    }
+    if (!container) pos.createConstructionSite(STRUCTURE_CONTAINER);
+
+    creep.harvest(source);
+    return false;
+  }
+};
@@ -0,0 +1,67 @@
+import { goTo } from "@/Creep/move";
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { getContainerPos, recordRemoteIncome, retreatFromRemote } from "@/Room/remote";
+
+/**
+ * 修理脚下的道路
+ */
+const repairRoad = function (creep: Creep): void {
+  if (creep.store[RESOURCE_ENERGY] === 0) return;
+  const road = creep.pos.lookFor(LOOK_STRUCTURES).find(s => s.structureType === STRUCTURE_ROAD && s.hits < s.hitsMax);
+  if (road) creep.repair(road);
+};
+
+/**
+ * 获取运回能量的目标：storage，没有 storage 时是最近的没有填满的 spawn 和 extension
+ */
+const getDeliverTarget = function (creep: Creep): StructureStorage | StructureSpawn | StructureExtension | null {
+  if (creep.room.storage) return creep.room.storage;
+  return creep.pos.findClosestByRange<StructureSpawn | StructureExtension>(FIND_MY_STRUCTURES, {
+    filter: s =>
+      (s.structureType === STRUCTURE_SPAWN || s.structureType === STRUCTURE_EXTENSION) &&
+      s.store.getFreeCapacity(RESOURCE_ENERGY) > 0
+  });
+};
+
+/**
+ * 外矿运输者
+ * 从外矿的 container 和旁边掉落的能量中拿取能量，运回所属房间的 storage，没有 storage 时填充 spawn 和 extension
+ * 路上会顺便修理脚下的道路
+ */
+export const remoteHelper: CreepConfig = {
+  source: creep => {
+    if (retreatFromRemote(creep)) return false;
+
+    const pos = getContainerPos(creep);
+    if (!pos) return false;
+    if (!creep.pos.inRangeTo(pos, 1)) {
+      creep.moveTo(pos, { range: 1, reusePath: 20 });
+      return false;
+    }
+
+    const dropped = pos.findInRange(FIND_DROPPED_RESOURCES, 1, {
+      filter: r => r.resourceType === RESOURCE_ENERGY
+    })[0];
+    const container = pos.lookFor(LOOK_STRUCTURES).find(s => s.structureType === STRUCTURE_CONTAINER) as
+      | StructureContainer
+      | undefined;
+    if (dropped) creep.pickup(dropped);
+    else if (container) creep.withdraw(container, RESOURCE_ENERGY);
+
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    repairRoad(creep);
+    if (!goToRoom(creep, creep.memory.room)) return false;
+
+    const target = getDeliverTarget(creep);
+    if (!target) return false;
+
+    const amount = Math.min(creep.store[RESOURCE_ENERGY], target.store.getFreeCapacity(RESOURCE_ENERGY));
+    const result = creep.transfer(target, RESOURCE_ENERGY);
+    if (result === ERR_NOT_IN_RANGE) goTo(creep, target);
+    else if (result === OK) recordRemoteIncome(creep, amount);
+    return creep.store[RESOURCE_ENERGY] === 0;
+  }
+};
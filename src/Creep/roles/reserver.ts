@@ -0,0 +1,22 @@
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+import { retreatFromRemote } from "@/Room/remote";
+
+/**
+ * 预定者
+ * 前往 memory.targetRoom 预定控制器，控制器被别人预定时先攻击掉对方的预定
+ */
+export const reserver: CreepConfig = {
+  prepare: creep => !retreatFromRemote(creep) && (!creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom)),
+  target: creep => {
+    if (retreatFromRemote(creep)) return false;
+
+    const controller = creep.room.controller;
+    if (!controller) return false;
+
+    const reservedByOthers = controller.reservation && controller.reservation.username !== creep.owner.username;
+    const result = reservedByOthers ? creep.attackController(controller) : creep.reserveController(controller);
+    if (result === ERR_NOT_IN_RANGE) creep.moveTo(controller, { reusePath: 20 });
+    return false;
+  }
+};
@@ -0,0 +1,27 @@
+import { CreepConfig } from "@/Creep/types";
+import { goToRoom } from "@/Creep/utils";
+
+/**
+ * 默认的签名内容
+ */
+const DEFAULT_SIGN = "🦀";
+
+/**
+ * 签名者
+ * 前往 memory.targetRoom 给控制器签名，签完后自杀
+ */
+export const signer: CreepConfig = {
+  prepare: creep => !creep.memory.targetRoom || goToRoom(creep, creep.memory.targetRoom),
+  target: creep => {
+    const controller = creep.room.controller;
+    if (!controller) {
+      creep.suicide();
+      return false;
+    }
+
+    const result = creep.signController(controller, creep.memory.sign || DEFAULT_SIGN);
+    if (result === ERR_NOT_IN_RANGE) creep.moveTo(controller);
+    else creep.suicide();
+    return false;
+  }
+};
@@ -0,0 +1,68 @@
+import { goTo } from "@/Creep/move";
+import { CreepConfig } from "@/Creep/types";
+import { buildSite, getEnergy, upgradeController } from "@/Creep/utils";
+import { getWeakestRampart, RAMPART_SAFE_HITS } from "@/Room/rampart";
+
+/**
+ * 低于该比例的建筑会被修理（不包括墙和 rampart）
+ */
+const REPAIR_RATIO = 0.5;
+
+/**
+ * 修理最近的受损建筑
+ *
+ * @param creep 携带能量的 creep
+ * @returns 是否找到了需要修理的建筑
+ */
+const repairStructure = function (creep: Creep): boolean {
+  const target = creep.pos.findClosestByRange(FIND_STRUCTURES, {
+    filter: s =>
+      s.structureType !== STRUCTURE_WALL && s.structureType !== STRUCTURE_RAMPART && s.hits < s.hitsMax * REPAIR_RATIO
+  });
+  if (!target) return false;
+
+  if (creep.repair(target) === ERR_NOT_IN_RANGE) goTo(creep, target, { range: 3 });
+  return true;
+};
+
+/**
+ * 修理血量最低的 rampart，直到它达到目标血量
+ *
+ * @param creep 携带能量的 creep
+ * @param targetHits 目标血量
+ * @returns 是否找到了需要修理的 rampart
+ */
+const repairRampart = function (creep: Creep, targetHits: number): boolean {
+  let rampart = creep.memory.repairId && Game.getObjectById(creep.memory.repairId);
+  // 修好了就换下一个最弱的
+  if (!rampart || rampart.hits >= targetHits) {
+    rampart = getWeakestRampart(creep.room, targetHits);
+    if (!rampart) return false;
+    creep.memory.repairId = rampart.id;
+  }
+
+  if (creep.repair(rampart) === ERR_NOT_IN_RANGE) goTo(creep, rampart, { range: 3 });
+  return true;
+};
+
+/**
+ * 工人
+ * 拿取能量后依次进行：抢修新建的 rampart > 建造 > 修理 > 加固 rampart > 升级
+ */
+export const worker: CreepConfig = {
+  source: creep => {
+    delete creep.memory.repairId;
+    getEnergy(creep);
+    return creep.store.getFreeCapacity() === 0;
+  },
+  target: creep => {
+    const targetHits = creep.room.memory.rampartHits || 0;
+    const busy =
+      repairRampart(creep, RAMPART_SAFE_HITS) ||
+      buildSite(creep) ||
+      repairStructure(creep) ||
+      repairRampart(creep, targetHits);
+    if (!busy) upgradeController(creep);
+    return creep.store[RESOURCE_ENERGY] === 0;
+  }
+};
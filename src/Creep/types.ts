@@ -1,9 +1,12 @@
+import { BoostPlan } from "@/Creep/body";
+
 export enum CreepRole {
   Harvester = "harvester",
   Miner = "miner",
   Worker = "worker",
   Manager = "manager",
   Claimer = "claimer",
+  Reserver = "reserver",
   Signer = "signer",
   PbHealer = "pbHealer",
   PbAttacker = "pbAttacker",
@@ -12,3 +15,47 @@ export enum CreepRole {
   RemoteHelper = "RemoteHelper",
   Defender = "defender"
 }
+
+/**
+ * creep 的工作阶段
+ * prepare 只会在出生后执行一次，之后在 source 和 target 之间来回切换
+ */
+export enum CreepStage {
+  Prepare = "prepare",
+  Source = "source",
+  Target = "target"
+}
+
+/**
+ * 角色的行为配置
+ * 每个阶段的函数返回 true 时切换到下一个阶段
+ */
+export interface CreepConfig {
+  /**
+   * 准备阶段，例如前往工作地点，完成后进入 source 阶段
+   */
+  prepare?: (creep: Creep) => boolean;
+  /**
+   * 获取资源阶段，完成后进入 target 阶段
+   * 没有该阶段的角色会一直执行 target
+   */
+  source?: (creep: Creep) => boolean;
+  /**
+   * 工作阶段，完成后回到 source 阶段
+   */
+  target: (creep: Creep) => boolean;
+}
+
+declare global {
+  interface CreepMemory {
+    role: CreepRole; // creep 角色
+    room: string; // creep 所属的房间（出生房间）
+    stage?: CreepStage; // 当前所处的工作阶段
+    sourceId?: Id<Source>; // 绑定的能量源
+    repairId?: Id<StructureRampart>; // 正在修理的 rampart
+    targetRoom?: string; // 要前往的目标房间
+    sign?: string; // 要签在控制器上的文字
+    pair?: number; // power bank 行动中 attacker 和 healer 的小组编号
+    boost?: BoostPlan; // 等待强化的部件，强化完成后删除
+  }
+}
@@ -0,0 +1,145 @@
+import { goTo } from "@/Creep/move";
+import { getTargetLink } from "@/Room/links";
+import { yellow } from "@/utils/color";
+
+/**
+ * 已经报告过的 creep，防止每 tick 都刷屏
+ */
+const reportedCreeps = new Set<string>();
+
+/**
+ * 输出一次 creep 相关的警告，同一个 creep 只会输出一次
+ *
+ * @param creep 出问题的 creep
+ * @param message 警告内容
+ */
+export const reportOnce = function (creep: Creep, message: string): void {
+  if (reportedCreeps.has(creep.name)) return;
+  reportedCreeps.add(creep.name);
+  console.log(yellow(`[${creep.room.name}] ${creep.name} ${message}`));
+};
+
+/**
+ * 清理已经死亡的 creep 的报告记录，和清理 creep 内存时一起执行
+ *
+ * @param name 已经死亡的 creep 的名字
+ */
+export const forgetCreep = function (name: string): void {
+  reportedCreeps.delete(name);
+};
+
+/**
+ * 让 creep 原地待命
+ * 站在出口上会被来回传送，所以先挪回房间内
+ *
+ * @param creep 要停放的 creep
+ */
+export const parkCreep = function (creep: Creep): void {
+  const { x, y } = creep.pos;
+  if (x <= 0 || x >= 49 || y <= 0 || y >= 49) {
+    creep.moveTo(new RoomPosition(25, 25, creep.room.name), { range: 20 });
+  }
+};
+
+/**
+ * 前往目标房间
+ *
+ * @param creep 要移动的 creep
+ * @param roomName 目标房间名
+ * @returns 是否已经在目标房间内
+ */
+export const goToRoom = function (creep: Creep, roomName: string): boolean {
+  const { x, y } = creep.pos;
+  if (creep.room.name === roomName && x > 0 && x < 49 && y > 0 && y < 49) return true;
+  creep.moveTo(new RoomPosition(25, 25, roomName), { range: 20, reusePath: 20 });
+  return false;
+};
+
+/**
+ * 获取能量
+ * 优先级：身边的 controller link > storage > container > 地上掉落的能量 > 自己采集
+ *
+ * @param creep 要获取能量的 creep
+ */
+export const getEnergy = function (creep: Creep): void {
+  const room = creep.room;
+  // 在控制器附近升级的 creep 直接从 controller link 拿，不用跑回 storage
+  const controllerLink = room.controller && getTargetLink(room, room.controller.id);
+  if (controllerLink && controllerLink.store[RESOURCE_ENERGY] > 0 && creep.pos.inRangeTo(controllerLink, 3)) {
+    if (creep.withdraw(controllerLink, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, controllerLink);
+    return;
+  }
+
+  if (room.storage && room.storage.store[RESOURCE_ENERGY] >= creep.store.getFreeCapacity()) {
+    if (creep.withdraw(room.storage, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, room.storage);
+    return;
+  }
+
+  const container = creep.pos.findClosestByRange<StructureContainer>(FIND_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_CONTAINER && s.store[RESOURCE_ENERGY] >= 50
+  });
+  if (container) {
+    if (creep.withdraw(container, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, container);
+    return;
+  }
+
+  const dropped = creep.pos.findClosestByRange(FIND_DROPPED_RESOURCES, {
+    filter: r => r.resourceType === RESOURCE_ENERGY && r.amount >= 50
+  });
+  if (dropped) {
+    if (creep.pickup(dropped) === ERR_NOT_IN_RANGE) goTo(creep, dropped);
+    return;
+  }
+
+  const source = creep.pos.findClosestByRange(FIND_SOURCES_ACTIVE);
+  if (source && creep.harvest(source) === ERR_NOT_IN_RANGE) goTo(creep, source);
+};
+
+/**
+ * 填充 spawn、extension 和 tower
+ *
+ * @param creep 携带能量的 creep
+ * @returns 是否找到了需要填充的建筑
+ */
+export const fillSpawnStructure = function (creep: Creep): boolean {
+  const target = creep.pos.findClosestByRange<StructureSpawn | StructureExtension | StructureTower>(
+    FIND_MY_STRUCTURES,
+    {
+      filter: s =>
+        (s.structureType === STRUCTURE_SPAWN ||
+          s.structureType === STRUCTURE_EXTENSION ||
+          (s.structureType === STRUCTURE_TOWER && s.store[RESOURCE_ENERGY] < 800)) &&
+        s.store.getFreeCapacity(RESOURCE_ENERGY) > 0
+    }
+  );
+  if (!target) return false;
+
+  if (creep.transfer(target, RESOURCE_ENERGY) === ERR_NOT_IN_RANGE) goTo(creep, target);
+  return true;
+};
+
+/**
+ * 建造最近的工地
+ *
+ * @param creep 携带能量的 creep
+ * @returns 是否找到了工地
+ */
+export const buildSite = function (creep: Creep): boolean {
+  const site = creep.pos.findClosestByRange(FIND_MY_CONSTRUCTION_SITES);
+  if (!site) return false;
+
+  if (creep.build(site) === ERR_NOT_IN_RANGE) goTo(creep, site, { range: 3 });
+  return true;
+};
+
+/**
+ * 升级控制器
+ *
+ * @param creep 携带能量的 creep
+ */
+export const upgradeController = function (creep: Creep): void {
+  const controller = creep.room.controller;
+  if (!controller?.my) return;
+
+  if (creep.upgradeController(controller) === ERR_NOT_IN_RANGE) goTo(creep, controller, { range: 3 });
+};
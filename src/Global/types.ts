@@ -0,0 +1,12 @@
+/* eslint-disable no-var -- 全局变量只能用 var 声明 */
+
+declare global {
+  var showLayout: (roomName: string) => string; // 控制台命令：开启房间的布局预览
+  var hideLayout: (roomName: string) => string; // 控制台命令：关闭房间的布局预览
+  var expansionRooms: () => string; // 控制台命令：查看扩张候选房间的排名
+  var labTarget: (roomName: string, compound?: MineralCompoundConstant, amount?: number) => string; // 控制台命令：设置 lab 的目标化合物
+  var sellThreshold: (resource: ResourceConstant, amount?: number) => string; // 控制台命令：设置资源的卖出阈值
+  var factoryPriority: (roomName: string, ...rules: string[]) => string; // 控制台命令：设置 factory 的生产规则优先级
+}
+
+export {};
@@ -32,9 +32,6 @@ const SINK_VERTEX = 2 * ROOM_SIZE * ROOM_SIZE + 1; // 汇点位置
 const TOP_OFFSET = 0; // 顶部顶点偏移
 const BOT_OFFSET = ROOM_SIZE * ROOM_SIZE; // 底部顶点偏移
 
-// 可视化开关
-const VISUALIZATION = false;
-
 /**
  * 边界定义
  */
@@ -48,7 +45,7 @@ interface Bounds {
 /**
  * 位置坐标
  */
-interface Position {
+export interface Position {
   x: number;
   y: number;
 }
@@ -302,17 +299,6 @@ export function createRoom2DArrayFromTerrain(
   return room2D;
 }
 
-/**
- * 创建房间地形的二维数组（包装函数，从游戏对象获取数据）
- * @param roomname 房间名称
- * @param bounds 边界范围
- * @returns 二维数组，标记不同类型的地形
- */
-function createRoom2DArray(roomname: string, bounds: Bounds = { x1: 0, y1: 0, x2: 49, y2: 49 }): number[][] {
-  const terrain = new Room.Terrain(roomname);
-  return createRoom2DArrayFromTerrain(terrain, bounds);
-}
-
 /**
  * 将顶点索引转换为坐标
  */
@@ -331,13 +317,13 @@ export function positionToVertex(x: number, y: number): number {
 }
 
 /**
- * 创建图结构
- * @param roomname 房间名称
+ * 创建图结构（纯函数版本）
+ * @param terrainData 地形数据
  * @param coords 需要保护的位置坐标数组
  * @param bounds 边界范围
  * @returns 图对象，如果边界无效则返回 null
  */
-function createGraph(roomname: string, coords: number[][], bounds: Bounds): Graph | null {
+function createGraphPure(terrainData: TerrainData, coords: number[][], bounds: Bounds): Graph | null {
   // 验证边界
   if (bounds.x1 >= bounds.x2 || bounds.y1 >= bounds.y2 ||
       bounds.x1 < 0 || bounds.y1 < 0 ||
@@ -346,7 +332,7 @@ function createGraph(roomname: string, coords: number[][], bounds: Bounds): Grap
     return null;
   }
 
-  const roomArray = createRoom2DArray(roomname, bounds);
+  const roomArray = createRoom2DArrayFromTerrain(terrainData, bounds);
 
   // 标记需要保护的位置
   for (const coord of coords) {
@@ -355,27 +341,6 @@ function createGraph(roomname: string, coords: number[][], bounds: Bounds): Grap
     }
   }
 
-  // 可视化（如果启用）
-  if (VISUALIZATION) {
-    errorMapper(() => {
-      const visual = new RoomVisual(roomname);
-      for (let x = 0; x < ROOM_SIZE; x++) {
-        for (let y = 0; y < ROOM_SIZE; y++) {
-          const value = roomArray[x][y];
-          if (value === UNWALKABLE) {
-            visual.circle(x, y, { radius: 0.5, fill: "#111166", opacity: 0.3 });
-          } else if (value === NORMAL) {
-            visual.circle(x, y, { radius: 0.5, fill: "#e8e863", opacity: 0.3 });
-          } else if (value === PROTECTED) {
-            visual.circle(x, y, { radius: 0.5, fill: "#75e863", opacity: 0.3 });
-          } else if (value === TO_EXIT) {
-            visual.circle(x, y, { radius: 0.5, fill: "#b063e8", opacity: 0.3 });
-          }
-        }
-      }
-    });
-  }
-
   // 创建图
   const graph = new Graph(GRAPH_VERTEX_COUNT);
   const infinity = Number.MAX_VALUE;
@@ -428,12 +393,12 @@ function createGraph(roomname: string, coords: number[][], bounds: Bounds): Grap
 }
 
 /**
- * 删除死胡同中的不必要切块
- * @param roomname 房间名称
+ * 删除死胡同中的不必要切块（纯函数版本）
+ * @param terrainData 地形数据
  * @param cutTilesArray 切块位置数组（会被修改）
  */
-function deleteTilesToDeadEnds(roomname: string, cutTilesArray: Position[]): void {
-  const roomArray = createRoom2DArray(roomname);
+function deleteTilesToDeadEndsPure(terrainData: TerrainData, cutTilesArray: Position[]): void {
+  const roomArray = createRoom2DArrayFromTerrain(terrainData);
 
   // 将所有切块标记为不可行走
   for (let i = cutTilesArray.length - 1; i >= 0; i--) {
@@ -498,20 +463,20 @@ function deleteTilesToDeadEnds(roomname: string, cutTilesArray: Position[]): voi
 }
 
 /**
- * 计算最小割的瓦片位置
- * @param roomname 房间名称
+ * 计算最小割的瓦片位置（纯函数版本）
+ * @param terrainData 地形数据
  * @param coords 需要保护的位置坐标数组
  * @param bounds 边界范围
  * @param verbose 是否输出详细信息
  * @returns 需要建造 rampart 的位置数组
  */
-function getCutTiles(
-  roomname: string,
+export function getCutTilesPure(
+  terrainData: TerrainData,
   coords: number[][],
   bounds: Bounds = { x1: 0, y1: 0, x2: 49, y2: 49 },
   verbose = false
 ): Position[] {
-  const graph = createGraph(roomname, coords, bounds);
+  const graph = createGraphPure(terrainData, coords, bounds);
   if (!graph) return [];
 
   const count = graph.calcMinCut(SOURCE_VERTEX, SINK_VERTEX);
@@ -533,36 +498,102 @@ function getCutTiles(
   const isWholeRoom = bounds.x1 === 0 && bounds.y1 === 0 &&
                       bounds.x2 === ROOM_MAX_INDEX && bounds.y2 === ROOM_MAX_INDEX;
   if (positions.length > 0 && !isWholeRoom) {
-    deleteTilesToDeadEnds(roomname, positions);
+    deleteTilesToDeadEndsPure(terrainData, positions);
+  }
+
+  return positions;
+}
+
+/**
+ * 标记 rampart 外侧的暴露区域（纯函数版本）
+ * 从出口开始 BFS，不经过 rampart 就能到达的位置都是暴露的
+ * @param terrainData 地形数据
+ * @param ramparts rampart 位置数组
+ * @returns 二维数组，暴露区域标记为 EXPOSED
+ */
+export function getExposedArrayPure(terrainData: TerrainData, ramparts: Position[]): number[][] {
+  const roomArray = createRoom2DArrayFromTerrain(terrainData);
+
+  // 标记 rampart 位置
+  for (const pos of ramparts) {
+    if (roomArray[pos.x]?.[pos.y] !== undefined) {
+      roomArray[pos.x][pos.y] = RAMPART_MIN;
+    }
   }
 
-  // 可视化结果
-  if (VISUALIZATION && positions.length > 0) {
-    errorMapper(() => {
-      const visual = new RoomVisual(roomname);
-      for (const pos of positions) {
-        visual.circle(pos.x, pos.y, { radius: 0.5, fill: "#ff7722", opacity: 0.9 });
+  // BFS 查找暴露区域（从出口开始，无法到达 rampart 的区域）
+  const exposedFrontier: [number, number][] = [];
+  const explored = Array(ROOM_SIZE).fill(0).map(() => Array(ROOM_SIZE).fill(false));
+
+  // 初始化：将所有出口加入队列
+  for (let x = 0; x < ROOM_SIZE; x++) {
+    for (let y = 0; y < ROOM_SIZE; y++) {
+      if (roomArray[x]?.[y] === EXIT) {
+        exposedFrontier.push([x, y]);
+        roomArray[x][y] = EXPOSED;
+        explored[x][y] = true;
       }
-    });
+    }
   }
 
-  return positions;
+  // BFS 标记所有暴露区域
+  let exposedIndex = 0;
+  while (exposedIndex < exposedFrontier.length) {
+    const p = exposedFrontier[exposedIndex++];
+
+    for (const [dx, dy] of SURROUND_OFFSETS) {
+      const x = p[0] + dx;
+      const y = p[1] + dy;
+
+      if (x >= 0 && x < ROOM_SIZE && y >= 0 && y < ROOM_SIZE &&
+          !explored[x][y] &&
+          roomArray[x]?.[y] !== undefined &&
+          roomArray[x][y] !== UNWALKABLE &&
+          roomArray[x][y] !== RAMPART_MIN) {
+        roomArray[x][y] = EXPOSED;
+        exposedFrontier.push([x, y]);
+        explored[x][y] = true;
+      }
+    }
+  }
+
+  return roomArray;
 }
 
 /**
- * 计算房间的防御布局
+ * 创建暴露区域的成本矩阵（包装函数，从游戏对象获取数据）
  * @param roomname 房间名称
+ * @param ramparts rampart 位置数组
+ * @returns 成本矩阵，暴露区域为 0xff
+ */
+export function getExposedMatrix(roomname: string, ramparts: Position[]): CostMatrix {
+  const roomArray = getExposedArrayPure(new Room.Terrain(roomname), ramparts);
+
+  // 创建成本矩阵：暴露区域设置为不可行走
+  const costMatrix = new PathFinder.CostMatrix();
+  for (let x = 0; x < ROOM_SIZE; x++) {
+    for (let y = 0; y < ROOM_SIZE; y++) {
+      if (roomArray[x]?.[y] === EXPOSED) {
+        costMatrix.set(x, y, 0xff);
+      }
+    }
+  }
+
+  return costMatrix;
+}
+
+/**
+ * 计算房间的防御布局（纯函数版本）
+ * @param terrainData 地形数据
  * @param protectedPos 需要保护的位置数组
  * @param controllerPos 控制器位置
- * @returns [rampart 位置数组, 成本矩阵]
+ * @returns [rampart 位置数组, 成本数组（暴露区域为 0xff，按 [x][y] 索引）]
  */
-export function calculate(
-  roomname: string,
+export function calculatePure(
+  terrainData: TerrainData,
   protectedPos: [number, number][],
   controllerPos: [number, number]
-): [Position[], CostMatrix] {
-  const roomArray = createRoom2DArray(roomname);
-
+): [Position[], number[][]] {
   // 扩展保护区域：将保护位置向外扩展 3 格
   const protectedArr: number[][] = Array(ROOM_SIZE).fill(0).map(() => Array(ROOM_SIZE).fill(0));
   const expandedProtectedPos: [number, number][] = [];
@@ -608,60 +639,48 @@ export function calculate(
   }
 
   // 计算最小割位置
-  const positions = getCutTiles(roomname, expandedProtectedPos);
-
-  // 标记 rampart 位置
-  for (const pos of positions) {
-    if (roomArray[pos.x]?.[pos.y] !== undefined) {
-      roomArray[pos.x][pos.y] = RAMPART_MIN;
-    }
-  }
-
-  // BFS 查找暴露区域（从出口开始，无法到达 rampart 的区域）
-  const exposedFrontier: [number, number][] = [];
-  const explored = Array(ROOM_SIZE).fill(0).map(() => Array(ROOM_SIZE).fill(false));
+  const positions = getCutTilesPure(terrainData, expandedProtectedPos);
 
-  // 初始化：将所有出口加入队列
+  // 暴露区域设置为不可行走
+  const exposedArray = getExposedArrayPure(terrainData, positions);
+  const costArray: number[][] = Array(ROOM_SIZE).fill(0).map(() => Array(ROOM_SIZE).fill(0));
   for (let x = 0; x < ROOM_SIZE; x++) {
     for (let y = 0; y < ROOM_SIZE; y++) {
-      if (roomArray[x]?.[y] === EXIT) {
-        exposedFrontier.push([x, y]);
-        roomArray[x][y] = EXPOSED;
-        explored[x][y] = true;
-      }
+      if (exposedArray[x][y] === EXPOSED) costArray[x][y] = 0xff;
     }
   }
 
-  // BFS 标记所有暴露区域
-  let exposedIndex = 0;
-  while (exposedIndex < exposedFrontier.length) {
-    const p = exposedFrontier[exposedIndex++];
-
-    for (const [dx, dy] of SURROUND_OFFSETS) {
-      const x = p[0] + dx;
-      const y = p[1] + dy;
-
-      if (x >= 0 && x < ROOM_SIZE && y >= 0 && y < ROOM_SIZE &&
-          !explored[x][y] &&
-          roomArray[x]?.[y] !== undefined &&
-          roomArray[x][y] !== UNWALKABLE &&
-          roomArray[x][y] !== RAMPART_MIN) {
-        roomArray[x][y] = EXPOSED;
-        exposedFrontier.push([x, y]);
-        explored[x][y] = true;
-      }
-    }
-  }
+  return [positions, costArray];
+}
 
-  // 创建成本矩阵：暴露区域设置为不可行走
+/**
+ * 将成本数组转换为成本矩阵
+ * @param costArray 按 [x][y] 索引的成本数组
+ */
+export function createCostMatrix(costArray: number[][]): CostMatrix {
   const costMatrix = new PathFinder.CostMatrix();
   for (let x = 0; x < ROOM_SIZE; x++) {
     for (let y = 0; y < ROOM_SIZE; y++) {
-      if (roomArray[x]?.[y] === EXPOSED) {
-        costMatrix.set(x, y, 0xff);
-      }
+      if (costArray[x][y]) costMatrix.set(x, y, costArray[x][y]);
     }
   }
+  return costMatrix;
+}
+
+/**
+ * 计算房间的防御布局（包装函数，从游戏对象获取数据）
+ * @param roomname 房间名称
+ * @param protectedPos 需要保护的位置数组
+ * @param controllerPos 控制器位置
+ * @returns [rampart 位置数组, 成本矩阵]
+ */
+export function calculate(
+  roomname: string,
+  protectedPos: [number, number][],
+  controllerPos: [number, number]
+): [Position[], CostMatrix] {
+  const [positions, costArray] = calculatePure(new Room.Terrain(roomname), protectedPos, controllerPos);
+  const costMatrix = createCostMatrix(costArray);
 
   return [positions, costMatrix];
 }
@@ -688,17 +707,74 @@ export interface RoomLayout {
   road: [number, number][];
 }
 
+/**
+ * 创建一个空的布局
+ */
+export function createEmptyLayout(): RoomLayout {
+  return {
+    spawn: [], extension: [], extractor: [], factory: [],
+    lab: [], tower: [], link: [], nuker: [], observer: [],
+    powerSpawn: [], storage: [], terminal: [], container: [], road: []
+  };
+}
+
 /**
  * 建筑群定义（相对坐标）
  */
-interface BuildingCluster {
+export interface BuildingCluster {
   [structureType: string]: [number, number][];
 }
 
-// 存储建筑群：storage + link
-const storageCluster: BuildingCluster = {
-  [STRUCTURE_STORAGE]: [[0, 0]],
-  [STRUCTURE_LINK]: [[0, 1]]
+/**
+ * 建筑群位置的权重公式
+ * 候选位置的成本 = Σ 成本数组 × 系数，成本越低越优先
+ */
+export type ClusterWeights = { [cost in keyof LayoutCosts]?: number };
+
+/**
+ * 建筑群模板
+ */
+export interface ClusterTemplate {
+  name: string; // 模板名称，用于输出进度
+  structures: BuildingCluster; // 建筑的相对坐标
+  count: number; // 要放置几组
+  weights: ClusterWeights; // 位置的权重公式
+  managerOffset?: [number, number]; // manager 站位的相对坐标，这个位置会保持空闲
+  managerRange?: number; // 所有建筑到 manager 站位的最大距离
+}
+
+/**
+ * 布局模板集合
+ * 按顺序放置每个建筑群模板，包含 storage 的建筑群应该放在第一个，后面的建筑群才能使用到 storage 的距离
+ */
+export interface LayoutTemplateSet {
+  name: string;
+  clusters: ClusterTemplate[];
+}
+
+// 单个建筑
+const single = (structureType: string): BuildingCluster => ({ [structureType]: [[0, 0]] });
+
+// 核心建筑群：中心空出来给 manager 站，storage、terminal、factory、powerSpawn、link 和两个 spawn 都在 manager 旁边
+//   r r r r r
+//   r S T F r
+//   r L . P r
+//   r s r s r
+//   r r s r r
+const hubCluster: BuildingCluster = {
+  [STRUCTURE_STORAGE]: [[-1, -1]],
+  [STRUCTURE_TERMINAL]: [[0, -1]],
+  [STRUCTURE_FACTORY]: [[1, -1]],
+  [STRUCTURE_LINK]: [[-1, 0]],
+  [STRUCTURE_POWER_SPAWN]: [[1, 0]],
+  [STRUCTURE_SPAWN]: [[-1, 1], [1, 1], [0, 2]],
+  [STRUCTURE_ROAD]: [
+    [-2, -2], [-1, -2], [0, -2], [1, -2], [2, -2],
+    [-2, -1], [2, -1],
+    [-2, 0], [2, 0],
+    [-2, 1], [0, 1], [2, 1],
+    [-2, 2], [-1, 2], [1, 2], [2, 2]
+  ]
 };
 
 // 实验室建筑群：10 个 lab
@@ -726,11 +802,86 @@ const extensionCluster: BuildingCluster = {
   ]
 };
 
-// 观察者建筑群：1 个 observer
-const observerCluster: BuildingCluster = {
-  [STRUCTURE_OBSERVER]: [[0, 0]]
+// 堡垒核心：中心空出来给 manager 站，周围是 storage、terminal、factory、link、powerSpawn 等
+//   s r r r s
+//   r S T F r
+//   r L . P r
+//   r N r s r
+//   t r r r t
+const bunkerCoreCluster: BuildingCluster = {
+  [STRUCTURE_STORAGE]: [[-1, -1]],
+  [STRUCTURE_TERMINAL]: [[0, -1]],
+  [STRUCTURE_FACTORY]: [[1, -1]],
+  [STRUCTURE_LINK]: [[-1, 0]],
+  [STRUCTURE_POWER_SPAWN]: [[1, 0]],
+  [STRUCTURE_NUKER]: [[-1, 1]],
+  [STRUCTURE_SPAWN]: [[-2, -2], [2, -2], [1, 1]],
+  [STRUCTURE_TOWER]: [[-2, 2], [2, 2]],
+  [STRUCTURE_ROAD]: [
+    [-1, -2], [0, -2], [1, -2],
+    [-2, -1], [2, -1],
+    [-2, 0], [2, 0],
+    [-2, 1], [0, 1], [2, 1],
+    [-1, 2], [0, 2], [1, 2]
+  ]
+};
+
+// 十字形扩展建筑群：5 个 extension，四个角留空方便填充
+const extensionPlusCluster: BuildingCluster = {
+  [STRUCTURE_EXTENSION]: [[0, -1], [-1, 0], [0, 0], [1, 0], [0, 1]]
+};
+
+// 常用的权重公式
+const STORAGE_WEIGHTS: ClusterWeights = { source: 1, mineral: 0.25, controller: 1, wall: -1 };
+const LAB_WEIGHTS: ClusterWeights = { mineral: 1, storage: 5, source: 0.01, controller: 0.01 };
+const NEAR_STORAGE_WEIGHTS: ClusterWeights = { mineral: 0.01, storage: 1, source: 0.01, controller: 0.01 };
+const EXTENSION_WEIGHTS: ClusterWeights = { mineral: 0.01, storage: 4, source: 1, controller: 0.01 };
+
+/**
+ * nuker 到 manager 站位的最大距离，manager 离开站位后几步就能填充
+ */
+const NUKER_MANAGER_RANGE = 3;
+
+/**
+ * 内置的布局模板
+ * flower：核心建筑群周围散布的建筑群，适合不规则的地形
+ * bunker：以 manager 站位为中心的紧凑核心，适合开阔的地形
+ */
+export const LAYOUT_TEMPLATES: { [name: string]: LayoutTemplateSet } = {
+  flower: {
+    name: "flower",
+    clusters: [
+      { name: "hub", structures: hubCluster, count: 1, weights: STORAGE_WEIGHTS, managerOffset: [0, 0] },
+      {
+        name: "nuker",
+        structures: single(STRUCTURE_NUKER),
+        count: 1,
+        weights: NEAR_STORAGE_WEIGHTS,
+        managerRange: NUKER_MANAGER_RANGE
+      },
+      { name: "lab", structures: labCluster, count: 1, weights: LAB_WEIGHTS },
+      { name: "tower", structures: towerCluster, count: 2, weights: NEAR_STORAGE_WEIGHTS },
+      { name: "extension", structures: extensionCluster, count: 12, weights: EXTENSION_WEIGHTS },
+      { name: "observer", structures: single(STRUCTURE_OBSERVER), count: 1, weights: NEAR_STORAGE_WEIGHTS }
+    ]
+  },
+  bunker: {
+    name: "bunker",
+    clusters: [
+      { name: "core", structures: bunkerCoreCluster, count: 1, weights: STORAGE_WEIGHTS, managerOffset: [0, 0] },
+      { name: "tower", structures: single(STRUCTURE_TOWER), count: 4, weights: NEAR_STORAGE_WEIGHTS },
+      { name: "lab", structures: labCluster, count: 1, weights: LAB_WEIGHTS },
+      { name: "extension", structures: extensionPlusCluster, count: 12, weights: EXTENSION_WEIGHTS },
+      { name: "observer", structures: single(STRUCTURE_OBSERVER), count: 1, weights: NEAR_STORAGE_WEIGHTS }
+    ]
+  }
 };
 
+/**
+ * 默认使用的布局模板
+ */
+export const DEFAULT_LAYOUT_TEMPLATE = "flower";
+
 /**
  * 初始化二维数组
  * @param defaultValue 默认值
@@ -766,20 +917,6 @@ export function isNearWallOrEdgePure(x: number, y: number, terrainData: TerrainD
   return false;
 }
 
-/**
- * 检查位置是否在墙壁或边缘（包装函数）
- */
-function isOnWallOrEdge(x: number, y: number, terrain: any): boolean {
-  return isOnWallOrEdgePure(x, y, terrain);
-}
-
-/**
- * 检查位置是否靠近墙壁或边缘（包装函数）
- */
-function isNearWallOrEdge(x: number, y: number, terrain: any): boolean {
-  return isNearWallOrEdgePure(x, y, terrain);
-}
-
 /**
  * 使用 BFS 计算成本数组（距离越远成本越高，纯函数版本）
  * @param costArr 成本数组（会被修改）
@@ -825,20 +962,6 @@ export function getCostArrayPure(
   }
 }
 
-/**
- * 使用 BFS 计算成本数组（包装函数，从游戏对象获取数据）
- */
-function getCostArray(
-  costArr: number[][],
-  startX: number,
-  startY: number,
-  maxRange: number,
-  roomname: string
-): void {
-  const terrain = new Room.Terrain(roomname);
-  getCostArrayPure(costArr, startX, startY, maxRange, terrain);
-}
-
 /**
  * 检查是否可以放置建筑群（纯函数版本，不检查现有建筑）
  */
@@ -877,33 +1000,26 @@ export function canPutPure(
 }
 
 /**
- * 检查是否可以放置建筑群（包装函数，包含游戏对象检查）
+ * 检查是否可以放置建筑群（同时检查现有建筑）
  */
-function canPut(
+function canPutWithExisting(
   x: number,
   y: number,
   cluster: BuildingCluster,
   built: boolean[][],
-  room: Room,
-  matrix: number[][],
-  terrain: any
+  occupied: boolean[][],
+  terrainData: TerrainData
 ): boolean {
-  // 先进行纯函数检查
-  if (!canPutPure(x, y, cluster, built, terrain)) {
+  // 先检查地形和已规划的建筑
+  if (!canPutPure(x, y, cluster, built, terrainData)) {
     return false;
   }
 
-  // 检查是否有其他建筑（需要游戏对象）
+  // 检查是否有其他建筑或工地
   for (const structureType in cluster) {
-    const offsets = cluster[structureType];
-    for (const [dx, dy] of offsets) {
-      const nx = x + dx;
-      const ny = y + dy;
-      const lookResult = room.lookAt(nx, ny);
-      for (const obj of lookResult) {
-        if (obj.type === LOOK_STRUCTURES || obj.type === LOOK_CONSTRUCTION_SITES) {
-          return false;
-        }
+    for (const [dx, dy] of cluster[structureType]) {
+      if (occupied[x + dx][y + dy]) {
+        return false;
       }
     }
   }
@@ -963,6 +1079,34 @@ export function findMin(
   return [minX, minY];
 }
 
+/**
+ * 在成本矩阵中找到多个成本较低的位置（满足条件），位置之间至少间隔 spacing 格
+ * 第一个位置和 findMin 的结果相同
+ */
+export function findMinPositions(
+  matrix: number[][],
+  predicate: (x: number, y: number) => boolean,
+  count: number,
+  spacing: number
+): [number, number][] {
+  const candidates: [number, number, number][] = [];
+  for (let x = 0; x < ROOM_SIZE; x++) {
+    for (let y = 0; y < ROOM_SIZE; y++) {
+      const value = matrix[x]?.[y] ?? Number.MAX_VALUE;
+      if (predicate(x, y)) candidates.push([value, x, y]);
+    }
+  }
+  candidates.sort((a, b) => a[0] - b[0]);
+
+  const result: [number, number][] = [];
+  for (const [, x, y] of candidates) {
+    if (result.length >= count) break;
+    if (result.some(([px, py]) => Math.max(Math.abs(px - x), Math.abs(py - y)) < spacing)) continue;
+    result.push([x, y]);
+  }
+  return result;
+}
+
 /**
  * 多个数组相加
  */
@@ -994,306 +1138,1035 @@ export function multiplyArray(arr: number[][], scalar: number): number[][] {
 /**
  * 序列化位置
  */
-export function serialize(pos: RoomPosition): string {
+export function serialize(pos: { x: number; y: number }): string {
   return `${pos.x},${pos.y}`;
 }
 
 /**
- * 生成房间的建筑布局
- * @param roomname 房间名称
- * @param sources 资源位置数组
- * @param mineral 矿物位置
- * @param controller 控制器位置
- * @param roomMemory 房间内存对象（会被修改）
- * @returns 建筑布局
+ * 反序列化位置，格式见 serialize
  */
-export function buildLayout(
-  roomname: string,
-  sources: { pos: { x: number; y: number } }[],
-  mineral: { pos: { x: number; y: number } },
-  controller: { pos: { x: number; y: number } },
-  roomMemory: any
-): RoomLayout {
-  let result: RoomLayout = {
-    spawn: [], extension: [], extractor: [], factory: [],
-    lab: [], tower: [], link: [], nuker: [], observer: [],
-    powerSpawn: [], storage: [], terminal: [], container: [], road: []
-  };
-
-  errorMapper(() => {
-    const room = Game.rooms[roomname];
-    if (!room) {
-      console.log(`[autoPlanner] 错误：房间 ${roomname} 不存在`);
-      result = {
-        spawn: [], extension: [], extractor: [], factory: [],
-        lab: [], tower: [], link: [], nuker: [], observer: [],
-        powerSpawn: [], storage: [], terminal: [], container: [], road: []
-      };
-      return;
-    }
+export function deserialize(pos: string): Position {
+  const [x, y] = pos.split(",").map(Number);
+  return { x, y };
+}
 
-    const layout: RoomLayout = {
-      spawn: [],
-      extension: [],
-      extractor: [],
-      factory: [],
-      lab: [],
-      tower: [],
-      link: [],
-      nuker: [],
-      observer: [],
-      powerSpawn: [],
-      storage: [],
-      terminal: [],
-      container: [],
-      road: []
-    };
-
-    const built = initArr(false);
-    const sourceArr = initArr(0);
-    const mineralArr = initArr(0);
-    const controllerArr = initArr(0);
-    const storageArr = initArr(0);
-
-    // 计算资源成本数组
-    for (const source of sources) {
-      getCostArray(sourceArr, source.pos.x, source.pos.y, 3, roomname);
-    }
+/**
+ * 寻路函数
+ * 返回从起点走到终点 range 范围内的路径，不包含起点，blocked 中为 true 的位置不能经过
+ */
+export type LayoutPathFinder = (from: Position, to: Position, range: number, blocked?: boolean[][]) => Position[];
 
-    // 放置提取器
-    layout.extractor.push([mineral.pos.x, mineral.pos.y]);
-    getCostArray(mineralArr, mineral.pos.x, mineral.pos.y, 2, roomname);
+/**
+ * 房间中已有的建筑或工地
+ */
+export interface ExistingStructure {
+  x: number;
+  y: number;
+  structureType: string;
+  my?: boolean; // 是否是自己的建筑或工地，道路和 container 没有所有者
+}
 
-    // 计算控制器成本数组
-    getCostArray(controllerArr, controller.pos.x, controller.pos.y, 4, roomname);
+/**
+ * 接管房间时建议拆除的建筑
+ */
+export interface MisplacedStructure extends ExistingStructure {
+  reason: string; // 建议拆除的原因
+}
 
-    const terrain = new Room.Terrain(roomname);
+/**
+ * 布局规划的目标对象（资源、矿物、控制器）
+ */
+export interface LayoutTarget {
+  id?: string;
+  pos: Position;
+}
 
-    // 计算到墙壁的距离数组
-    const wallArr = initArr(0);
-    const wallFrontier: [number, number][] = [];
-    const wallExplored = initArr(false);
+/**
+ * 还没有放置 storage 或者到不了 storage 的位置使用的距离
+ */
+const UNREACHABLE_COST = ROOM_SIZE * 2;
 
-    // 初始化：将所有墙壁和边缘位置加入队列
-    for (let x = 0; x < ROOM_SIZE; x++) {
-      for (let y = 0; y < ROOM_SIZE; y++) {
-        if (isOnWallOrEdge(x, y, terrain)) {
-          wallFrontier.push([x, y]);
-          wallExplored[x][y] = true;
-        }
-      }
-    }
+/**
+ * 不同候选布局的第一个建筑群之间至少间隔的距离
+ */
+const ANCHOR_SPACING = 5;
 
-    // BFS 计算到墙壁的距离
-    let wallIndex = 0;
-    while (wallIndex < wallFrontier.length) {
-      const [x, y] = wallFrontier[wallIndex++];
-      const neighbors: [number, number][] = [
-        [x - 1, y - 1], [x - 1, y], [x - 1, y + 1],
-        [x, y - 1], [x, y + 1],
-        [x + 1, y - 1], [x + 1, y], [x + 1, y + 1]
-      ];
-
-      for (const [nx, ny] of neighbors) {
-        if (nx > 0 && nx < ROOM_MAX_INDEX && ny > 0 && ny < ROOM_MAX_INDEX &&
-            !wallExplored[nx][ny]) {
-          wallArr[nx][ny] = (wallArr[x][y] + 10) * 0.75;
-          wallFrontier.push([nx, ny]);
-          wallExplored[nx][ny] = true;
-        }
+/**
+ * 接管房间时会读入布局的建筑，extractor 总是放在矿上，不需要读入
+ */
+const ADOPTABLE_STRUCTURES: string[] = [
+  STRUCTURE_SPAWN,
+  STRUCTURE_EXTENSION,
+  STRUCTURE_TOWER,
+  STRUCTURE_STORAGE,
+  STRUCTURE_TERMINAL,
+  STRUCTURE_LAB,
+  STRUCTURE_FACTORY,
+  STRUCTURE_POWER_SPAWN,
+  STRUCTURE_NUKER,
+  STRUCTURE_OBSERVER,
+  STRUCTURE_LINK
+];
+
+/**
+ * 接管房间时不会挡住规划的建筑，道路和 container 随时可以重建，rampart 可以盖在其他建筑上
+ */
+const REPLACEABLE_STRUCTURES: string[] = [STRUCTURE_ROAD, STRUCTURE_CONTAINER, STRUCTURE_RAMPART];
+
+/**
+ * 接管的建筑离核心（storage，没有时为 spawn）超过该距离时建议拆除，保护它们会让 rampart 防线变得很长
+ */
+const ADOPT_MAX_RANGE = 10;
+
+/**
+ * 获取某种建筑在 8 级时的数量上限
+ */
+const getMaxCount = function (structureType: string): number {
+  return CONTROLLER_STRUCTURES[structureType as BuildableStructureConstant]?.[8] ?? 0;
+};
+
+/**
+ * 统计布局中还差多少建筑才能达到 8 级的数量上限（纯函数版本）
+ * link 的数量取决于 source 的数量，不统计在内
+ * @param layout 建筑布局
+ */
+export function getMissingStructuresPure(layout: RoomLayout): number {
+  let missing = 0;
+  for (const type of ADOPTABLE_STRUCTURES) {
+    if (type === STRUCTURE_LINK) continue;
+    missing += Math.max(0, getMaxCount(type) - layout[type as keyof RoomLayout].length);
+  }
+  return missing;
+}
+
+/**
+ * 布局规划用到的成本数组
+ */
+interface LayoutCosts {
+  source: number[][];
+  mineral: number[][];
+  controller: number[][];
+  storage: number[][];
+  wall: number[][];
+}
+
+/**
+ * 可以分多个 tick 执行的布局规划任务
+ * 只包含普通数据，每执行完一步都可以暂停，下个 tick 从 step 继续
+ */
+export interface LayoutJob {
+  templateSet: LayoutTemplateSet;
+  sources: LayoutTarget[];
+  mineral: LayoutTarget;
+  controller: LayoutTarget;
+  step: number; // 下一个要执行的步骤
+  anchor: number; // 第一个建筑群使用第几好的位置，用于生成不同的候选布局
+  layout: RoomLayout;
+  built: boolean[][];
+  occupied: boolean[][];
+  costs: LayoutCosts;
+  storagePos?: Position;
+  managerPos?: Position; // manager 的站位，完成后写入房间内存
+  adopt: boolean; // 是否接管房间中已有的建筑
+  existing: ExistingStructure[]; // 房间中已有的建筑和工地
+  misplaced: MisplacedStructure[]; // 接管房间时建议拆除的建筑
+  centers: [number, number][]; // 已放置的建筑群中心
+  targetMemory: { [targetId: string]: { containerPos?: string; linkPos?: string } }; // 完成后写入房间内存
+}
+
+/**
+ * 布局规划的进度
+ */
+export interface LayoutJobProgress {
+  done: boolean;
+  step: number;
+  total: number;
+}
+
+/**
+ * 布局规划中的一步
+ */
+type LayoutStep = (job: LayoutJob, terrainData: TerrainData, findPath: LayoutPathFinder) => void;
+
+/**
+ * 检查建筑群能否放在任务当前的布局中
+ */
+const canPutInJob = function (
+  job: LayoutJob,
+  x: number,
+  y: number,
+  template: ClusterTemplate,
+  terrainData: TerrainData
+): boolean {
+  if (!canPutWithExisting(x, y, template.structures, job.built, job.occupied, terrainData)) return false;
+
+  // manager 站位需要是空地
+  if (template.managerOffset) {
+    const mx = x + template.managerOffset[0];
+    const my = y + template.managerOffset[1];
+    if (isOnWallOrEdgePure(mx, my, terrainData) || job.built[mx][my] || job.occupied[mx][my]) return false;
+  }
+
+  // 所有建筑都要在 manager 站位附近
+  const { managerPos } = job;
+  if (template.managerRange !== undefined && managerPos) {
+    for (const structureType in template.structures) {
+      for (const [dx, dy] of template.structures[structureType]) {
+        const range = Math.max(Math.abs(x + dx - managerPos.x), Math.abs(y + dy - managerPos.y));
+        if (range > template.managerRange) return false;
       }
     }
+  }
 
-    // 找到存储位置
-    let matrix = addArrays(
-      sourceArr,
-      multiplyArray(mineralArr, 0.25),
-      controllerArr,
-      multiplyArray(wallArr, -1)
-    );
+  return true;
+};
 
-    let [x, y] = findMin(matrix, (x, y) => {
-      return canPut(x, y, storageCluster, built, room, matrix, terrain);
-    });
+/**
+ * 获取不能行走的位置：已规划的建筑（道路除外）和 manager 站位
+ */
+const getBlockedArray = function (job: LayoutJob): boolean[][] {
+  const blocked = job.built.map(column => [...column]);
+  for (const [x, y] of job.layout.road) blocked[x][y] = false;
+  return blocked;
+};
 
-    getCostArray(storageArr, x, y, 0, roomname);
-    put(x, y, layout, storageCluster, built);
-    const storagePos = new RoomPosition(x, y, roomname);
-
-    // 连接到存储的函数
-    const connectToStorage = (targetX: number, targetY: number): void => {
-      const position = new RoomPosition(targetX, targetY, roomname);
-      const path = room.findPath(position, storagePos, {
-        ignoreCreeps: true,
-        ignoreDestructibleStructures: true,
-        ignoreRoads: true,
-        swampCost: 1,
-        heuristicWeight: 1,
-        range: 1
-      });
+/**
+ * 在路径上还没有规划建筑的位置修路
+ */
+const placeRoads = function (job: LayoutJob, path: Position[]): void {
+  for (const p of path) {
+    if (!job.built[p.x][p.y]) {
+      job.layout.road.push([p.x, p.y]);
+      job.built[p.x][p.y] = true;
+    }
+  }
+};
 
-      for (const p of path) {
-        if (!built[p.x][p.y]) {
-          layout.road.push([p.x, p.y]);
-          built[p.x][p.y] = true;
-        }
-      }
-    };
-
-    // 找到实验室位置
-    matrix = addArrays(
-      mineralArr,
-      multiplyArray(storageArr, 5),
-      multiplyArray(sourceArr, 0.01),
-      multiplyArray(controllerArr, 0.01)
-    );
+/**
+ * 按照权重公式计算候选位置的成本矩阵
+ */
+const getWeightedMatrix = function (costs: LayoutCosts, weights: ClusterWeights): number[][] {
+  const arrays: number[][][] = [];
+  for (const key in weights) {
+    const cost = key as keyof LayoutCosts;
+    arrays.push(multiplyArray(costs[cost], weights[cost] ?? 0));
+  }
+  return addArrays(...arrays);
+};
 
-    [x, y] = findMin(matrix, (x, y) => {
-      return canPut(x, y, labCluster, built, room, matrix, terrain);
-    });
+/**
+ * 去掉建筑群中已经达到 8 级数量上限的建筑
+ */
+const trimCluster = function (job: LayoutJob, cluster: BuildingCluster): BuildingCluster {
+  const result: BuildingCluster = {};
+  for (const type in cluster) {
+    const remaining = getMaxCount(type) - job.layout[type as keyof RoomLayout].length;
+    if (remaining > 0) result[type] = cluster[type].slice(0, remaining);
+  }
+  return result;
+};
 
-    put(x, y, layout, labCluster, built);
-    const centers: [number, number][] = [[x, y]];
+/**
+ * 接管了 storage 时，获取让建筑群中的 storage 和已有的 storage 重合的位置
+ */
+const getAlignedPosition = function (job: LayoutJob, cluster: BuildingCluster): [number, number] | undefined {
+  const offset = cluster[STRUCTURE_STORAGE]?.[0];
+  if (!job.adopt || !offset || !job.storagePos) return undefined;
+  return [job.storagePos.x - offset[0], job.storagePos.y - offset[1]];
+};
 
-    // 防御塔矩阵
-    const towerMatrix = addArrays(
-      multiplyArray(mineralArr, 0.01),
-      storageArr,
-      multiplyArray(sourceArr, 0.01),
-      multiplyArray(controllerArr, 0.01)
-    );
+/**
+ * 找到成本最低的位置放置一组建筑群，并记录建筑群中心
+ * 建筑群包含 storage 时，同时计算到 storage 的距离，供后面的建筑群使用
+ * @param rank 使用第几好的位置，0 表示成本最低的位置
+ */
+const putClusterTemplate = function (
+  job: LayoutJob,
+  template: ClusterTemplate,
+  terrainData: TerrainData,
+  findPath: LayoutPathFinder,
+  rank = 0
+): void {
+  // 已经达到数量上限的建筑不再放置，只剩道路的建筑群也不需要放了
+  const cluster = trimCluster(job, template.structures);
+  if (Object.keys(cluster).every(type => type === STRUCTURE_ROAD)) return;
+  const trimmed: ClusterTemplate = { ...template, structures: cluster };
+
+  const matrix = getWeightedMatrix(job.costs, template.weights);
+  const predicate = (x: number, y: number) => canPutInJob(job, x, y, trimmed, terrainData);
+
+  // 接管了 storage 时，包含 storage 的建筑群尽量对齐到已有的 storage 上
+  const aligned = getAlignedPosition(job, template.structures);
+  let x: number;
+  let y: number;
+  if (aligned && predicate(aligned[0], aligned[1])) {
+    [x, y] = aligned;
+  } else if (rank === 0) {
+    [x, y] = findMin(matrix, predicate);
+  } else {
+    const positions = findMinPositions(matrix, predicate, rank + 1, ANCHOR_SPACING);
+    if (positions.length <= rank) return;
+    [x, y] = positions[rank];
+  }
+  // 房间里已经放不下了
+  if (!predicate(x, y)) return;
 
-    // 放置防御塔群
-    const putTowerCluster = (): void => {
-      [x, y] = findMin(towerMatrix, (x, y) => {
-        return canPut(x, y, towerCluster, built, room, matrix, terrain);
-      });
-      centers.push([x, y]);
-      put(x, y, layout, towerCluster, built);
-    };
-
-    // 扩展建筑矩阵
-    const extensionMatrix = addArrays(
-      multiplyArray(mineralArr, 0.01),
-      multiplyArray(storageArr, 4),
-      sourceArr,
-      multiplyArray(controllerArr, 0.01)
-    );
+  job.centers.push([x, y]);
+  put(x, y, job.layout, cluster, job.built);
 
-    // 放置扩展建筑群
-    const putExtensionCluster = (): void => {
-      [x, y] = findMin(extensionMatrix, (x, y) => {
-        return canPut(x, y, extensionCluster, built, room, matrix, terrain);
-      });
-      centers.push([x, y]);
-      put(x, y, layout, extensionCluster, built);
-    };
-
-    // 放置 6 组防御塔和扩展
-    for (let i = 0; i < 6; i++) {
-      putTowerCluster();
-      putExtensionCluster();
+  // 占住 manager 站位，后面的建筑和道路都不会放在这里
+  if (template.managerOffset && !job.managerPos) {
+    job.managerPos = { x: x + template.managerOffset[0], y: y + template.managerOffset[1] };
+    job.built[job.managerPos.x][job.managerPos.y] = true;
+  }
+
+  const storage = cluster[STRUCTURE_STORAGE]?.[0];
+  if (storage && !job.storagePos) {
+    job.storagePos = { x: x + storage[0], y: y + storage[1] };
+    getCostArrayPure(job.costs.storage, job.storagePos.x, job.storagePos.y, UNREACHABLE_COST, terrainData);
+  } else if (job.storagePos) {
+    // 立即修一条通往 storage 的路，后面的建筑群不会压在路上，保证每个建筑群都能走到
+    const blocked = getBlockedArray(job);
+    for (const type in cluster) {
+      for (const [dx, dy] of cluster[type]) blocked[x + dx][y + dy] = false;
     }
+    placeRoads(job, findPath({ x, y }, job.storagePos, 1, blocked));
+  }
+};
 
-    // 放置观察者
-    matrix = addArrays(
-      multiplyArray(mineralArr, 0.01),
-      storageArr,
-      multiplyArray(sourceArr, 0.01),
-      multiplyArray(controllerArr, 0.01)
-    );
+/**
+ * 计算资源、矿物和控制器的成本数组，并放置提取器
+ */
+const planTargetCosts: LayoutStep = function (job, terrainData) {
+  for (const source of job.sources) {
+    getCostArrayPure(job.costs.source, source.pos.x, source.pos.y, 3, terrainData);
+  }
 
-    [x, y] = findMin(matrix, (x, y) => {
-      return canPut(x, y, observerCluster, built, room, matrix, terrain);
-    });
+  job.layout.extractor.push([job.mineral.pos.x, job.mineral.pos.y]);
+  getCostArrayPure(job.costs.mineral, job.mineral.pos.x, job.mineral.pos.y, 2, terrainData);
 
-    centers.push([x, y]);
-    put(x, y, layout, observerCluster, built);
+  getCostArrayPure(job.costs.controller, job.controller.pos.x, job.controller.pos.y, 4, terrainData);
 
-    // 连接所有建筑群到存储
-    for (const center of centers) {
-      connectToStorage(center[0], center[1]);
-    }
+  // 接管了已有的 storage
+  if (job.storagePos) {
+    getCostArrayPure(job.costs.storage, job.storagePos.x, job.storagePos.y, UNREACHABLE_COST, terrainData);
+  }
+};
 
-    // 放置容器和链接
-    const placeContainer = (target: { pos: { x: number; y: number } }): void => {
-      const range = target === controller ? 3 : 1;
-      const targetPos = new RoomPosition(target.pos.x, target.pos.y, roomname);
-      const path = room.findPath(storagePos, targetPos, {
-        ignoreCreeps: true,
-        ignoreDestructibleStructures: true,
-        ignoreRoads: true,
-        swampCost: 1,
-        heuristicWeight: 1,
-        range
-      });
+/**
+ * 计算到墙壁的距离数组
+ */
+const planWallCosts: LayoutStep = function (job, terrainData) {
+  const wallArr = job.costs.wall;
+  const wallFrontier: [number, number][] = [];
+  const wallExplored = initArr(false);
 
-      // 放置道路
-      for (let i = 0; i < path.length - 1; i++) {
-        if (!built[path[i].x][path[i].y]) {
-          layout.road.push([path[i].x, path[i].y]);
-          built[path[i].x][path[i].y] = true;
-        }
+  // 初始化：将所有墙壁和边缘位置加入队列
+  for (let x = 0; x < ROOM_SIZE; x++) {
+    for (let y = 0; y < ROOM_SIZE; y++) {
+      if (isOnWallOrEdgePure(x, y, terrainData)) {
+        wallFrontier.push([x, y]);
+        wallExplored[x][y] = true;
       }
+    }
+  }
 
-      // 放置容器
-      const containerPos = path[path.length - 1];
-      layout.container.push([containerPos.x, containerPos.y]);
-      built[containerPos.x][containerPos.y] = true;
-
-      // 保存容器位置到内存
-      const targetId = (target as any).id;
-      if (targetId) {
-        if (!roomMemory[targetId]) {
-          roomMemory[targetId] = {};
-        }
-        roomMemory[targetId].containerPos = serialize(new RoomPosition(containerPos.x, containerPos.y, roomname));
+  // BFS 计算到墙壁的距离
+  let wallIndex = 0;
+  while (wallIndex < wallFrontier.length) {
+    const [x, y] = wallFrontier[wallIndex++];
+    const neighbors: [number, number][] = [
+      [x - 1, y - 1], [x - 1, y], [x - 1, y + 1],
+      [x, y - 1], [x, y + 1],
+      [x + 1, y - 1], [x + 1, y], [x + 1, y + 1]
+    ];
+
+    for (const [nx, ny] of neighbors) {
+      if (nx > 0 && nx < ROOM_MAX_INDEX && ny > 0 && ny < ROOM_MAX_INDEX &&
+          !wallExplored[nx][ny]) {
+        wallArr[nx][ny] = (wallArr[x][y] + 10) * 0.75;
+        wallFrontier.push([nx, ny]);
+        wallExplored[nx][ny] = true;
       }
+    }
+  }
+};
+
+/**
+ * 为控制器、资源和矿物放置容器和链接
+ */
+const planContainers: LayoutStep = function (job, terrainData, findPath) {
+  const { layout, built, storagePos } = job;
+  if (!storagePos) return;
+
+  const placeContainer = (target: LayoutTarget): void => {
+    const range = target === job.controller ? 3 : 1;
+    const path = findPath(storagePos, target.pos, range, getBlockedArray(job));
+    if (path.length === 0) return;
+
+    // 放置道路
+    placeRoads(job, path.slice(0, -1));
+
+    // 放置容器
+    const containerPos = path[path.length - 1];
+    layout.container.push([containerPos.x, containerPos.y]);
+    built[containerPos.x][containerPos.y] = true;
+
+    // 记录容器位置，完成后写入内存
+    const targetId = target.id;
+    if (targetId) {
+      job.targetMemory[targetId] = { containerPos: serialize(containerPos) };
+    }
 
-      // 如果是矿物，不需要链接
-      if (target === mineral) {
-        return;
+    // 如果是矿物，不需要链接
+    if (target === job.mineral || layout.link.length >= getMaxCount(STRUCTURE_LINK)) {
+      return;
+    }
+
+    // 尝试放置链接（优先不在墙壁附近）
+    let linkBuilt = false;
+    for (const [dx, dy] of SURROUND_OFFSETS) {
+      const lx = containerPos.x + dx;
+      const ly = containerPos.y + dy;
+      if (!isNearWallOrEdgePure(lx, ly, terrainData) && !built[lx][ly]) {
+        layout.link.push([lx, ly]);
+        if (targetId) job.targetMemory[targetId].linkPos = serialize({ x: lx, y: ly });
+        linkBuilt = true;
+        break;
       }
+    }
 
-      // 尝试放置链接（优先不在墙壁附近）
-      let linkBuilt = false;
+    // 如果第一次尝试失败，放宽条件
+    if (!linkBuilt) {
       for (const [dx, dy] of SURROUND_OFFSETS) {
         const lx = containerPos.x + dx;
         const ly = containerPos.y + dy;
-        if (!isNearWallOrEdge(lx, ly, terrain) && !built[lx][ly]) {
+        if (!isOnWallOrEdgePure(lx, ly, terrainData) && !built[lx][ly]) {
           layout.link.push([lx, ly]);
-          if (targetId && roomMemory[targetId]) {
-            roomMemory[targetId].linkPos = serialize(new RoomPosition(lx, ly, roomname));
-          }
+          if (targetId) job.targetMemory[targetId].linkPos = serialize({ x: lx, y: ly });
           linkBuilt = true;
           break;
         }
       }
+    }
+  };
 
-      // 如果第一次尝试失败，放宽条件
-      if (!linkBuilt) {
-        for (const [dx, dy] of SURROUND_OFFSETS) {
-          const lx = containerPos.x + dx;
-          const ly = containerPos.y + dy;
-          if (!isOnWallOrEdge(lx, ly, terrain) && !built[lx][ly]) {
-            layout.link.push([lx, ly]);
-            if (targetId && roomMemory[targetId]) {
-              roomMemory[targetId].linkPos = serialize(new RoomPosition(lx, ly, roomname));
-            }
-            linkBuilt = true;
-            break;
+  placeContainer(job.controller);
+  for (const source of job.sources) {
+    placeContainer(source);
+  }
+  placeContainer(job.mineral);
+};
+
+/**
+ * 接管房间时，找出被规划的建筑占用的道路和 container
+ */
+const planMisplaced: LayoutStep = function (job) {
+  if (!job.adopt) return;
+
+  const planned: { [pos: string]: string } = {};
+  for (const type of Object.keys(job.layout) as (keyof RoomLayout)[]) {
+    for (const [x, y] of job.layout[type]) planned[serialize({ x, y })] = type;
+  }
+
+  for (const structure of job.existing) {
+    if (structure.structureType !== STRUCTURE_ROAD && structure.structureType !== STRUCTURE_CONTAINER) continue;
+    const type = planned[serialize(structure)];
+    if (type && type !== structure.structureType) {
+      job.misplaced.push({ ...structure, reason: `规划中这里是 ${type}` });
+    }
+  }
+};
+
+/**
+ * 获取布局规划的全部步骤，按顺序执行
+ * 每个建筑群模板的每一组都是单独的一步
+ * @param templateSet 布局模板
+ */
+const getLayoutSteps = function (templateSet: LayoutTemplateSet): LayoutStep[] {
+  const steps: LayoutStep[] = [planTargetCosts, planWallCosts];
+  templateSet.clusters.forEach((template, index) => {
+    for (let i = 0; i < template.count; i++) {
+      // 候选布局之间只有第一个建筑群的位置不同
+      const isAnchor = index === 0 && i === 0;
+      steps.push((job, terrainData, findPath) => {
+        putClusterTemplate(job, template, terrainData, findPath, isAnchor ? job.anchor : 0);
+      });
+    }
+  });
+  steps.push(planContainers, planMisplaced);
+  return steps;
+};
+
+/**
+ * 将房间中已有的建筑读入布局
+ * 自己的建筑会保留在布局中，离核心太远或者超过数量上限的建筑和别人的建筑会列为建议拆除
+ */
+const adoptStructures = function (job: LayoutJob, existing: ExistingStructure[]): void {
+  const mine = existing.filter(s => s.my && ADOPTABLE_STRUCTURES.includes(s.structureType));
+  const core =
+    mine.find(s => s.structureType === STRUCTURE_STORAGE) ?? mine.find(s => s.structureType === STRUCTURE_SPAWN);
+
+  for (const structure of existing) {
+    const { x, y, structureType } = structure;
+    if (!ADOPTABLE_STRUCTURES.includes(structureType)) {
+      if (!REPLACEABLE_STRUCTURES.includes(structureType)) job.occupied[x][y] = true;
+      continue;
+    }
+
+    // 别人的建筑需要拆掉，位置可以直接规划
+    if (!structure.my) {
+      job.misplaced.push({ ...structure, reason: "不是自己的建筑" });
+      continue;
+    }
+
+    job.occupied[x][y] = true;
+    if (core && Math.max(Math.abs(core.x - x), Math.abs(core.y - y)) > ADOPT_MAX_RANGE) {
+      job.misplaced.push({ ...structure, reason: "离核心太远" });
+      continue;
+    }
+
+    const type = structureType as keyof RoomLayout;
+    if (job.layout[type].length >= getMaxCount(type)) {
+      job.misplaced.push({ ...structure, reason: "超过 8 级的数量上限" });
+      continue;
+    }
+
+    job.layout[type].push([x, y]);
+    job.built[x][y] = true;
+    if (type === STRUCTURE_STORAGE && !job.storagePos) job.storagePos = { x, y };
+  }
+};
+
+/**
+ * 创建布局规划任务
+ * @param sources 资源位置数组
+ * @param mineral 矿物位置
+ * @param controller 控制器位置
+ * @param existing 房间中已有的建筑和工地，规划时会绕开这些位置
+ * @param templateSet 布局模板
+ * @param anchor 第一个建筑群使用第几好的位置
+ * @param adopt 是否接管已有的建筑：自己的建筑读入布局，其余部分围绕它们规划
+ * @returns 还没有执行任何步骤的任务
+ */
+export function createLayoutJob(
+  sources: LayoutTarget[],
+  mineral: LayoutTarget,
+  controller: LayoutTarget,
+  existing: ExistingStructure[],
+  templateSet: LayoutTemplateSet = LAYOUT_TEMPLATES[DEFAULT_LAYOUT_TEMPLATE],
+  anchor = 0,
+  adopt = false
+): LayoutJob {
+  // 只保留 id 和坐标，避免任务引用游戏对象
+  const toTarget = (target: LayoutTarget): LayoutTarget => ({ id: target.id, pos: { x: target.pos.x, y: target.pos.y } });
+
+  const job: LayoutJob = {
+    templateSet,
+    sources: sources.map(toTarget),
+    mineral: toTarget(mineral),
+    controller: toTarget(controller),
+    step: 0,
+    anchor,
+    layout: createEmptyLayout(),
+    built: initArr(false),
+    occupied: initArr(false),
+    costs: {
+      source: initArr(0),
+      mineral: initArr(0),
+      controller: initArr(0),
+      storage: initArr(UNREACHABLE_COST),
+      wall: initArr(0)
+    },
+    adopt,
+    existing,
+    misplaced: [],
+    centers: [],
+    targetMemory: {}
+  };
+
+  if (adopt) {
+    adoptStructures(job, existing);
+  } else {
+    for (const structure of existing) {
+      job.occupied[structure.x][structure.y] = true;
+    }
+  }
+
+  return job;
+}
+
+/**
+ * 执行布局规划任务，直到完成或者 shouldStop 返回 true
+ * 每次调用至少执行一步，保证任务总能推进
+ * @param job 布局规划任务（会被修改）
+ * @param terrainData 地形数据
+ * @param findPath 寻路函数
+ * @param shouldStop 每执行完一步后调用，返回 true 时暂停任务
+ * @returns 任务进度
+ */
+export function runLayoutJob(
+  job: LayoutJob,
+  terrainData: TerrainData,
+  findPath: LayoutPathFinder,
+  shouldStop: () => boolean = () => false
+): LayoutJobProgress {
+  const steps = getLayoutSteps(job.templateSet);
+  while (job.step < steps.length) {
+    steps[job.step](job, terrainData, findPath);
+    job.step++;
+    if (shouldStop()) break;
+  }
+
+  return { done: job.step >= steps.length, step: job.step, total: steps.length };
+}
+
+/**
+ * 布局规划会写入的房间内存
+ */
+export type LayoutRoomMemory = Pick<RoomMemory, "targets" | "managerPos">;
+
+/**
+ * 将任务记录的 container、link 位置和 manager 站位写入房间内存
+ * @param job 已完成的布局规划任务
+ * @param roomMemory 房间内存对象（会被修改）
+ */
+export function applyLayoutJobMemory(job: LayoutJob, roomMemory: LayoutRoomMemory): void {
+  const targets = roomMemory.targets ?? (roomMemory.targets = {});
+  for (const targetId in job.targetMemory) {
+    targets[targetId] = { ...targets[targetId], ...job.targetMemory[targetId] };
+  }
+  if (job.managerPos) roomMemory.managerPos = serialize(job.managerPos);
+  else delete roomMemory.managerPos;
+}
+
+// ==================== 候选布局评分相关 ====================
+
+/**
+ * 计算塔在指定距离上的效果（纯函数版本）
+ * 5 格以内是满额，20 格及以外衰减 75%，中间线性衰减
+ *
+ * @param power 满额时的效果，例如 TOWER_POWER_ATTACK
+ * @param range 塔到目标的距离
+ */
+export function getTowerPowerPure(power: number, range: number): number {
+  if (range <= TOWER_OPTIMAL_RANGE) return power;
+
+  const falloffRange = Math.min(range, TOWER_FALLOFF_RANGE) - TOWER_OPTIMAL_RANGE;
+  const falloff = (TOWER_FALLOFF * falloffRange) / (TOWER_FALLOFF_RANGE - TOWER_OPTIMAL_RANGE);
+  return Math.floor(power * (1 - falloff));
+}
+
+/**
+ * 需要被 rampart 保护的建筑，道路、container 和 link 离核心区太远，不在保护范围内
+ */
+export const PROTECTED_STRUCTURES: (keyof RoomLayout)[] = [
+  STRUCTURE_SPAWN,
+  STRUCTURE_EXTENSION,
+  STRUCTURE_TOWER,
+  STRUCTURE_STORAGE,
+  STRUCTURE_TERMINAL,
+  STRUCTURE_LAB,
+  STRUCTURE_FACTORY,
+  STRUCTURE_POWER_SPAWN,
+  STRUCTURE_NUKER,
+  STRUCTURE_OBSERVER
+];
+
+/**
+ * 默认生成几个候选布局
+ */
+export const LAYOUT_CANDIDATES = 3;
+
+/**
+ * 布局的评分明细
+ */
+export interface LayoutScore {
+  rampart: number; // rampart 数量
+  roadDistance: number; // storage 到资源和控制器的平均距离
+  towerDamage: number; // rampart 上塔伤最低的位置受到的塔伤
+  extensionDistance: number; // storage 到 extension 的平均距离
+  total: number; // 总分，越低越好
+}
+
+/**
+ * 各项评分在总分中的系数，塔伤越高越好所以是负数
+ */
+const SCORE_WEIGHTS: { [key in Exclude<keyof LayoutScore, "total">]: number } = {
+  rampart: 10,
+  roadDistance: 2,
+  towerDamage: -0.01,
+  extensionDistance: 5
+};
+
+/**
+ * 布局中可以行走的建筑
+ */
+const WALKABLE_STRUCTURES: (keyof RoomLayout)[] = [STRUCTURE_ROAD, STRUCTURE_CONTAINER];
+
+/**
+ * 计算从起点出发到房间内各个位置的步数，会绕开墙壁和不能行走的建筑
+ */
+const getDistanceArray = function (terrainData: TerrainData, layout: RoomLayout, start: Position): number[][] {
+  const blocked = initArr(false);
+  for (const type of Object.keys(layout) as (keyof RoomLayout)[]) {
+    if (WALKABLE_STRUCTURES.includes(type)) continue;
+    for (const [x, y] of layout[type]) blocked[x][y] = true;
+  }
+
+  const distance = initArr(UNREACHABLE_COST);
+  const frontier: [number, number][] = [[start.x, start.y]];
+  distance[start.x][start.y] = 0;
+
+  for (let i = 0; i < frontier.length; i++) {
+    const [x, y] = frontier[i];
+    for (const [dx, dy] of SURROUND_OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (isOnWallOrEdgePure(nx, ny, terrainData) || blocked[nx][ny]) continue;
+      if (distance[nx][ny] <= distance[x][y] + 1) continue;
+      distance[nx][ny] = distance[x][y] + 1;
+      frontier.push([nx, ny]);
+    }
+  }
+
+  return distance;
+};
+
+/**
+ * 获取目标 range 范围内最近位置的步数
+ */
+const getRangeDistance = function (distance: number[][], x: number, y: number, range: number): number {
+  let min = UNREACHABLE_COST;
+  for (let dx = -range; dx <= range; dx++) {
+    for (let dy = -range; dy <= range; dy++) {
+      min = Math.min(min, distance[x + dx]?.[y + dy] ?? UNREACHABLE_COST);
+    }
+  }
+  return min;
+};
+
+/**
+ * 数组求和
+ */
+const sum = function (values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+};
+
+/**
+ * 计算布局的评分（纯函数版本）
+ * @param terrainData 地形数据
+ * @param layout 建筑布局
+ * @param ramparts rampart 位置数组
+ * @param sources 资源位置数组
+ * @param controller 控制器位置
+ * @returns 评分明细，布局中没有 storage 时返回 undefined
+ */
+export function scoreLayoutPure(
+  terrainData: TerrainData,
+  layout: RoomLayout,
+  ramparts: Position[],
+  sources: LayoutTarget[],
+  controller: LayoutTarget
+): LayoutScore | undefined {
+  if (layout.storage.length === 0) return undefined;
+  const [sx, sy] = layout.storage[0];
+  const distance = getDistanceArray(terrainData, layout, { x: sx, y: sy });
+
+  // 运输线路的长度
+  const roadDistances = sources.map(source => getRangeDistance(distance, source.pos.x, source.pos.y, 1));
+  roadDistances.push(getRangeDistance(distance, controller.pos.x, controller.pos.y, 3));
+  const roadDistance = sum(roadDistances) / roadDistances.length;
+
+  // 填充 extension 时要走的距离
+  const extensionDistances = layout.extension.map(([x, y]) => getRangeDistance(distance, x, y, 1));
+  const extensionDistance = extensionDistances.length > 0 ? sum(extensionDistances) / extensionDistances.length : 0;
+
+  // rampart 防线上最薄弱的位置能受到的塔伤
+  let towerDamage = 0;
+  if (ramparts.length > 0 && layout.tower.length > 0) {
+    towerDamage = Number.MAX_VALUE;
+    for (const rampart of ramparts) {
+      let damage = 0;
+      for (const [tx, ty] of layout.tower) {
+        const range = Math.max(Math.abs(tx - rampart.x), Math.abs(ty - rampart.y));
+        damage += getTowerPowerPure(TOWER_POWER_ATTACK, range);
+      }
+      towerDamage = Math.min(towerDamage, damage);
+    }
+  }
+
+  const score = { rampart: ramparts.length, roadDistance, towerDamage, extensionDistance, total: 0 };
+  for (const key in SCORE_WEIGHTS) {
+    const scoreKey = key as keyof typeof SCORE_WEIGHTS;
+    score.total += score[scoreKey] * SCORE_WEIGHTS[scoreKey];
+  }
+  return score;
+}
+
+/**
+ * 格式化评分明细，用于输出日志
+ */
+export function formatLayoutScore(score: LayoutScore): string {
+  return (
+    `总分 ${score.total.toFixed(1)}（rampart ${score.rampart}，道路距离 ${score.roadDistance.toFixed(1)}，` +
+    `最低塔伤 ${score.towerDamage}，填充距离 ${score.extensionDistance.toFixed(1)}）`
+  );
+}
+
+/**
+ * 候选布局
+ */
+export interface LayoutCandidate {
+  job: LayoutJob;
+  // 布局完成并计算最小割后的结果，布局失败时为 undefined
+  result?: {
+    ramparts: Position[];
+    exposed: number[][]; // 暴露区域为 0xff，见 calculatePure
+    score: LayoutScore;
+  };
+}
+
+/**
+ * 多个候选布局的搜索任务，可以分多个 tick 执行
+ */
+export interface LayoutSearch {
+  candidates: LayoutCandidate[];
+  index: number; // 正在规划的候选布局
+}
+
+/**
+ * 候选布局搜索的可选项
+ */
+export interface LayoutSearchOptions {
+  templateSet?: LayoutTemplateSet; // 布局模板，默认为 DEFAULT_LAYOUT_TEMPLATE
+  count?: number; // 候选布局的数量，默认为 LAYOUT_CANDIDATES
+  adopt?: boolean; // 是否接管已有的建筑，默认不接管
+}
+
+/**
+ * 创建候选布局搜索任务，每个候选布局的第一个建筑群放在不同的位置
+ * @param sources 资源位置数组
+ * @param mineral 矿物位置
+ * @param controller 控制器位置
+ * @param existing 房间中已有的建筑和工地
+ * @param options 可选项
+ */
+export function createLayoutSearch(
+  sources: LayoutTarget[],
+  mineral: LayoutTarget,
+  controller: LayoutTarget,
+  existing: ExistingStructure[],
+  options: LayoutSearchOptions = {}
+): LayoutSearch {
+  const { templateSet = LAYOUT_TEMPLATES[DEFAULT_LAYOUT_TEMPLATE], count = LAYOUT_CANDIDATES, adopt = false } = options;
+  const candidates: LayoutCandidate[] = [];
+  for (let anchor = 0; anchor < count; anchor++) {
+    candidates.push({ job: createLayoutJob(sources, mineral, controller, existing, templateSet, anchor, adopt) });
+  }
+  return { candidates, index: 0 };
+}
+
+/**
+ * 对布局完成的候选布局计算最小割和评分
+ */
+const evaluateCandidate = function (candidate: LayoutCandidate, terrainData: TerrainData): void {
+  const { job } = candidate;
+  if (job.layout.storage.length === 0) return;
+
+  const protectedPos: [number, number][] = [];
+  for (const type of PROTECTED_STRUCTURES) protectedPos.push(...job.layout[type]);
+  const [ramparts, exposed] = calculatePure(terrainData, protectedPos, [job.controller.pos.x, job.controller.pos.y]);
+
+  const score = scoreLayoutPure(terrainData, job.layout, ramparts, job.sources, job.controller);
+  if (score) candidate.result = { ramparts, exposed, score };
+};
+
+/**
+ * 执行候选布局搜索，直到完成或者 shouldStop 返回 true
+ * 每个候选布局的每一步布局和最小割都是单独的一步，最小割很耗 cpu，只会在一次调用的开头执行
+ * @param search 搜索任务（会被修改）
+ * @param terrainData 地形数据
+ * @param findPath 寻路函数
+ * @param shouldStop 每执行完一步后调用，返回 true 时暂停任务
+ * @returns 搜索进度
+ */
+export function runLayoutSearch(
+  search: LayoutSearch,
+  terrainData: TerrainData,
+  findPath: LayoutPathFinder,
+  shouldStop: () => boolean = () => false
+): LayoutJobProgress {
+  let ran = false;
+  while (search.index < search.candidates.length) {
+    const candidate = search.candidates[search.index];
+    if (candidate.job.step < getLayoutSteps(candidate.job.templateSet).length) {
+      runLayoutJob(candidate.job, terrainData, findPath, () => true);
+    } else {
+      // 这次调用已经执行过其他步骤时，最小割留到下次调用
+      if (ran) break;
+      evaluateCandidate(candidate, terrainData);
+      search.index++;
+    }
+
+    ran = true;
+    if (shouldStop()) break;
+  }
+
+  return getLayoutSearchProgress(search);
+}
+
+/**
+ * 获取候选布局搜索的进度，每个候选布局的步数是布局步数加上一次最小割
+ */
+export function getLayoutSearchProgress(search: LayoutSearch): LayoutJobProgress {
+  let step = 0;
+  let total = 0;
+  search.candidates.forEach((candidate, index) => {
+    const steps = getLayoutSteps(candidate.job.templateSet).length;
+    total += steps + 1;
+    step += index < search.index ? steps + 1 : candidate.job.step;
+  });
+  return { done: search.index >= search.candidates.length, step, total };
+}
+
+/**
+ * 获取总分最低的候选布局
+ * @returns 所有候选布局都失败时返回 undefined
+ */
+export function getBestCandidate(search: LayoutSearch): LayoutCandidate | undefined {
+  let best: LayoutCandidate | undefined;
+  for (const candidate of search.candidates) {
+    if (!candidate.result) continue;
+    if (!best?.result || candidate.result.score.total < best.result.score.total) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * 生成房间的建筑布局（纯函数版本），在一次调用中执行完全部步骤
+ * @param terrainData 地形数据
+ * @param sources 资源位置数组
+ * @param mineral 矿物位置
+ * @param controller 控制器位置
+ * @param roomMemory 房间内存对象（会被修改，保存 container、link 的位置和 manager 站位）
+ * @param existing 房间中已有的建筑和工地，规划时会绕开这些位置
+ * @param findPath 寻路函数
+ * @param templateSet 布局模板
+ * @returns 建筑布局
+ */
+export function buildLayoutPure(
+  terrainData: TerrainData,
+  sources: LayoutTarget[],
+  mineral: LayoutTarget,
+  controller: LayoutTarget,
+  roomMemory: LayoutRoomMemory,
+  existing: ExistingStructure[],
+  findPath: LayoutPathFinder,
+  templateSet: LayoutTemplateSet = LAYOUT_TEMPLATES[DEFAULT_LAYOUT_TEMPLATE]
+): RoomLayout {
+  const job = createLayoutJob(sources, mineral, controller, existing, templateSet);
+  runLayoutJob(job, terrainData, findPath);
+  applyLayoutJobMemory(job, roomMemory);
+  return job.layout;
+}
+
+/**
+ * 获取房间中已有的建筑和工地
+ * @param room 房间
+ */
+export function getExistingStructures(room: Room): ExistingStructure[] {
+  const existing: ExistingStructure[] = [];
+  for (const structure of room.find(FIND_STRUCTURES)) {
+    const my = "my" in structure && structure.my;
+    existing.push({ x: structure.pos.x, y: structure.pos.y, structureType: structure.structureType, my });
+  }
+  for (const site of room.find(FIND_CONSTRUCTION_SITES)) {
+    existing.push({ x: site.pos.x, y: site.pos.y, structureType: site.structureType, my: site.my });
+  }
+  return existing;
+}
+
+/**
+ * 创建使用 room.findPath 的寻路函数
+ * @param room 房间
+ */
+export function createRoomPathFinder(room: Room): LayoutPathFinder {
+  return (from, to, range, blocked) => {
+    return room.findPath(new RoomPosition(from.x, from.y, room.name), new RoomPosition(to.x, to.y, room.name), {
+      ignoreCreeps: true,
+      ignoreDestructibleStructures: true,
+      ignoreRoads: true,
+      swampCost: 1,
+      heuristicWeight: 1,
+      range,
+      costCallback: (roomName, costMatrix) => {
+        if (!blocked) return;
+        for (let x = 0; x < ROOM_SIZE; x++) {
+          for (let y = 0; y < ROOM_SIZE; y++) {
+            if (blocked[x][y]) costMatrix.set(x, y, 0xff);
           }
         }
       }
-    };
+    });
+  };
+}
 
-    placeContainer(controller);
-    for (const source of sources) {
-      placeContainer(source);
+/**
+ * 创建只使用地形的寻路函数，房间没有视野时也可以使用
+ * @param roomName 房间名称
+ */
+export function createTerrainPathFinder(roomName: string): LayoutPathFinder {
+  return (from, to, range, blocked) => {
+    const costMatrix = new PathFinder.CostMatrix();
+    if (blocked) {
+      for (let x = 0; x < ROOM_SIZE; x++) {
+        for (let y = 0; y < ROOM_SIZE; y++) {
+          if (blocked[x][y]) costMatrix.set(x, y, 0xff);
+        }
+      }
     }
-    placeContainer(mineral);
 
-    result = layout;
+    const { path } = PathFinder.search(
+      new RoomPosition(from.x, from.y, roomName),
+      { pos: new RoomPosition(to.x, to.y, roomName), range },
+      { plainCost: 1, swampCost: 1, maxRooms: 1, heuristicWeight: 1, roomCallback: () => costMatrix }
+    );
+    return path;
+  };
+}
+
+/**
+ * 生成房间的建筑布局（包装函数，从游戏对象获取数据）
+ * @param roomname 房间名称
+ * @param sources 资源位置数组
+ * @param mineral 矿物位置
+ * @param controller 控制器位置
+ * @param roomMemory 房间内存对象（会被修改）
+ * @param templateSet 布局模板
+ * @returns 建筑布局
+ */
+export function buildLayout(
+  roomname: string,
+  sources: LayoutTarget[],
+  mineral: LayoutTarget,
+  controller: LayoutTarget,
+  roomMemory: LayoutRoomMemory,
+  templateSet: LayoutTemplateSet = LAYOUT_TEMPLATES[DEFAULT_LAYOUT_TEMPLATE]
+): RoomLayout {
+  let result = createEmptyLayout();
+
+  errorMapper(() => {
+    const room = Game.rooms[roomname];
+    if (!room) {
+      console.log(`[autoPlanner] 错误：房间 ${roomname} 不存在`);
+      return;
+    }
+
+    const terrain = new Room.Terrain(roomname);
+    const existing = getExistingStructures(room);
+    const findPath = createRoomPathFinder(room);
+    result = buildLayoutPure(terrain, sources, mineral, controller, roomMemory, existing, findPath, templateSet);
   });
 
   return result;
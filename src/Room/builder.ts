@@ -0,0 +1,333 @@
+import {
+  applyLayoutJobMemory,
+  createCostMatrix,
+  createLayoutSearch,
+  createRoomPathFinder,
+  DEFAULT_LAYOUT_TEMPLATE,
+  EXPOSED,
+  formatLayoutScore,
+  getBestCandidate,
+  getExistingStructures,
+  getExposedArrayPure,
+  LAYOUT_TEMPLATES,
+  LayoutCandidate,
+  LayoutSearch,
+  RoomLayout,
+  runLayoutSearch,
+  TerrainData
+} from "@/Room/autoPlanner";
+import { getRoomPlan, packPlan, RoomPlan, saveRoomPlan, unpackPlan } from "@/Room/layoutStore";
+import { RAMPART_BUILD_LEVEL, updateRampartHits } from "@/Room/rampart";
+import { setSafeMatrix } from "@/Room/safeArea";
+
+/**
+ * 建筑的放置顺序，道路最后放
+ */
+const BUILD_ORDER: ((keyof RoomLayout | "rampart") & BuildableStructureConstant)[] = [
+  STRUCTURE_SPAWN,
+  STRUCTURE_EXTENSION,
+  STRUCTURE_TOWER,
+  STRUCTURE_STORAGE,
+  STRUCTURE_LINK,
+  STRUCTURE_CONTAINER,
+  STRUCTURE_TERMINAL,
+  STRUCTURE_EXTRACTOR,
+  STRUCTURE_LAB,
+  STRUCTURE_FACTORY,
+  STRUCTURE_POWER_SPAWN,
+  STRUCTURE_NUKER,
+  STRUCTURE_OBSERVER,
+  STRUCTURE_RAMPART,
+  STRUCTURE_ROAD
+];
+
+/**
+ * 从几级开始修路，太早修路维护成本太高
+ */
+const ROAD_MIN_LEVEL = 3;
+
+/**
+ * 每隔多少 tick 重新检查一次布局，用于补上被摧毁的建筑
+ */
+const REBUILD_INTERVAL = 1000;
+
+/**
+ * bucket 低于该值时不进行布局规划
+ */
+const PLAN_MIN_BUCKET = 2000;
+
+/**
+ * 每 tick 最多用于布局规划的 cpu，超出后下个 tick 继续
+ */
+const PLAN_CPU_BUDGET = 20;
+
+/**
+ * 布局规划失败后多少 tick 才会重试
+ */
+const PLAN_RETRY_INTERVAL = 1000;
+
+/**
+ * 进行中的布局搜索任务，按房间名索引
+ * 任务保存在堆上，每完成一个候选布局就在房间内存中保存检查点，global 重置后从检查点继续
+ */
+const layoutSearches: { [roomName: string]: LayoutSearch } = {};
+
+/**
+ * 还没有占领的房间规划失败后重试的 tick，按房间名索引
+ * 预览只在房间内存中保存布局，重试时间保存在堆上
+ */
+const previewRetry: { [roomName: string]: number } = {};
+
+/**
+ * 保存布局搜索的检查点，只保存已经完成的候选布局
+ *
+ * @param room 正在规划的房间
+ * @param search 布局搜索任务
+ */
+const saveCheckpoint = function (room: Room, search: LayoutSearch): void {
+  const candidates = search.candidates.slice(0, search.index).map(({ job, result }) => {
+    if (!result) return null;
+    const rampart: [number, number][] = result.ramparts.map(pos => [pos.x, pos.y]);
+    const { misplaced, targetMemory, managerPos } = job;
+    return {
+      plan: packPlan({ layout: job.layout, rampart }),
+      score: result.score,
+      misplaced,
+      targetMemory,
+      managerPos
+    };
+  });
+  room.memory.layoutCheckpoint = { template: search.candidates[0].job.templateSet.name, candidates };
+};
+
+/**
+ * 用检查点恢复已经完成的候选布局
+ *
+ * @param room 正在规划的房间
+ * @param search 新建的布局搜索任务（会被修改）
+ * @param terrain 房间地形
+ * @returns 检查点和当前的搜索不匹配时返回 false
+ */
+const restoreCheckpoint = function (room: Room, search: LayoutSearch, terrain: TerrainData): boolean {
+  const checkpoint = room.memory.layoutCheckpoint;
+  if (!checkpoint) return false;
+  if (checkpoint.template !== search.candidates[0].job.templateSet.name) return false;
+  if (checkpoint.candidates.length > search.candidates.length) return false;
+
+  const restored: LayoutCandidate[] = [];
+  for (const [index, saved] of checkpoint.candidates.entries()) {
+    const candidate = search.candidates[index];
+    restored.push(candidate);
+    if (!saved) continue;
+
+    // 布局格式的版本变化后检查点失效
+    const plan = unpackPlan(saved.plan);
+    if (!plan) return false;
+    const ramparts = plan.rampart.map(([x, y]) => ({ x, y }));
+    const exposed = getExposedArrayPure(terrain, ramparts).map(column =>
+      column.map(value => (value === EXPOSED ? 0xff : 0))
+    );
+    Object.assign(candidate.job, {
+      layout: plan.layout,
+      misplaced: saved.misplaced,
+      targetMemory: saved.targetMemory,
+      managerPos: saved.managerPos
+    });
+    candidate.result = { ramparts, exposed, score: saved.score };
+  }
+  search.index = restored.length;
+  return true;
+};
+
+/**
+ * 布局规划失败，一段时间后再重试
+ *
+ * @param room 规划失败的房间
+ * @param reason 失败的原因
+ */
+const delayPlanning = function (room: Room, reason: string): void {
+  if (room.controller?.my) room.memory.planRetry = Game.time + PLAN_RETRY_INTERVAL;
+  else previewRetry[room.name] = Game.time + PLAN_RETRY_INTERVAL;
+  console.log(`[builder] 房间 ${room.name} 布局规划失败：${reason}，${PLAN_RETRY_INTERVAL} tick 后重试`);
+};
+
+/**
+ * 应用自己房间的规划结果：保存建议拆除的建筑、container 和 link 的位置以及暴露区域
+ *
+ * @param room 自己的房间
+ * @param best 采用的候选布局
+ */
+const applyPlan = function (room: Room, best: LayoutCandidate): void {
+  // 建议拆除的建筑保存在内存中，由玩家决定是否拆除
+  const { misplaced } = best.job;
+  for (const { structureType, x, y, reason } of misplaced) {
+    console.log(`[builder] 房间 ${room.name} 建议拆除 ${structureType} (${x},${y})：${reason}`);
+  }
+  if (misplaced.length > 0) room.memory.misplaced = misplaced;
+  else delete room.memory.misplaced;
+
+  applyLayoutJobMemory(best.job, room.memory);
+  if (best.result) setSafeMatrix(room.name, createCostMatrix(best.result.exposed));
+  // 新的规划需要重新放置所有工地
+  delete room.memory.level;
+};
+
+/**
+ * 规划房间布局和 rampart 位置，并压缩保存到内存
+ * 会生成多个候选布局，分多个 tick 执行，每 tick 最多使用 PLAN_CPU_BUDGET，最后保留评分最好的布局
+ * 还没有占领的房间不接管已有的建筑，也不保存检查点，只把布局保存到内存中
+ *
+ * @param room 要规划的房间
+ * @returns 是否规划完成
+ */
+const planRoom = function (room: Room): boolean {
+  const owned = !!room.controller?.my;
+  const retry = owned ? room.memory.planRetry : previewRetry[room.name];
+  if (retry !== undefined && Game.time < retry) return false;
+
+  const mineral = room.find(FIND_MINERALS)[0];
+  if (!room.controller || !mineral) {
+    delayPlanning(room, "没有控制器或者矿物");
+    return false;
+  }
+
+  const startCpu = Game.cpu.getUsed();
+  const terrain = new Room.Terrain(room.name);
+  let search: LayoutSearch | undefined = layoutSearches[room.name];
+  // 预览的房间被占领后需要接管已有的建筑重新规划
+  if (search && search.candidates[0].job.adopt !== owned) search = undefined;
+  if (!search) {
+    // 手动设置的模板不存在时使用默认模板
+    const templateSet = LAYOUT_TEMPLATES[room.memory.layoutTemplate ?? ""] ?? LAYOUT_TEMPLATES[DEFAULT_LAYOUT_TEMPLATE];
+    const existing = getExistingStructures(room);
+    // 接管自己房间中已有的建筑，只在空地上补全布局
+    search = createLayoutSearch(room.find(FIND_SOURCES), mineral, room.controller, existing, {
+      templateSet,
+      adopt: owned
+    });
+    if (owned && !restoreCheckpoint(room, search, terrain)) delete room.memory.layoutCheckpoint;
+    layoutSearches[room.name] = search;
+  }
+
+  const finished = search.index;
+  const progress = runLayoutSearch(search, terrain, createRoomPathFinder(room), () => {
+    return Game.cpu.getUsed() - startCpu >= PLAN_CPU_BUDGET;
+  });
+  if (!progress.done) {
+    // 每完成一个候选布局保存一次检查点并输出进度
+    if (search.index > finished) {
+      if (owned) saveCheckpoint(room, search);
+      console.log(`[builder] 房间 ${room.name} 布局规划进度 ${progress.step}/${progress.total}`);
+    }
+    return false;
+  }
+
+  delete layoutSearches[room.name];
+  if (owned) delete room.memory.layoutCheckpoint;
+  const best = getBestCandidate(search);
+  if (!best?.result) {
+    delayPlanning(room, "所有候选布局都失败了");
+    return false;
+  }
+
+  search.candidates.forEach((candidate, index) => {
+    const score = candidate.result ? formatLayoutScore(candidate.result.score) : "规划失败";
+    const mark = candidate === best ? "（采用）" : "";
+    console.log(`[builder] 房间 ${room.name} 候选布局 ${index + 1}：${score}${mark}`);
+  });
+  saveRoomPlan(room, { layout: best.job.layout, rampart: best.result.ramparts.map(pos => [pos.x, pos.y]) });
+  if (owned) {
+    delete room.memory.planRetry;
+    applyPlan(room, best);
+  } else delete previewRetry[room.name];
+  return true;
+};
+
+/**
+ * 获取规划中某种建筑在当前等级可以放置的位置
+ *
+ * @param plan 房间规划
+ * @param structureType 建筑类型
+ * @param level 控制器等级
+ */
+const getAllowedPositions = function (
+  plan: RoomPlan,
+  structureType: (typeof BUILD_ORDER)[number],
+  level: number
+): [number, number][] {
+  if (structureType === STRUCTURE_RAMPART) return level >= RAMPART_BUILD_LEVEL ? plan.rampart : [];
+  if (structureType === STRUCTURE_ROAD && level < ROAD_MIN_LEVEL) return [];
+
+  const limit = CONTROLLER_STRUCTURES[structureType][level] || 0;
+  return plan.layout[structureType].slice(0, limit);
+};
+
+/**
+ * 按照规划放置当前等级允许的工地
+ *
+ * @param room 要放置工地的房间
+ * @param plan 房间规划
+ * @param level 控制器等级
+ * @returns 放置了多少工地，以及是否因为全局工地上限而中断
+ */
+const placeSites = function (room: Room, plan: RoomPlan, level: number): { placed: number; full: boolean } {
+  let remaining = MAX_CONSTRUCTION_SITES - Object.keys(Game.constructionSites).length;
+  let placed = 0;
+
+  for (const structureType of BUILD_ORDER) {
+    for (const [x, y] of getAllowedPositions(plan, structureType, level)) {
+      if (remaining <= 0) return { placed, full: true };
+
+      const result = room.createConstructionSite(x, y, structureType);
+      if (result === OK) {
+        placed++;
+        remaining--;
+      } else if (result === ERR_FULL) return { placed, full: true };
+      // 数量已经达到当前等级的上限（例如已经有不在布局里的同类建筑）
+      else if (result === ERR_RCL_NOT_ENOUGH) break;
+    }
+  }
+
+  return { placed, full: false };
+};
+
+/**
+ * 为还没有占领的房间规划布局，用于在占领之前预览
+ * 只需要房间有视野，规划完成后不会放置工地，占领后会接管已有的建筑重新规划
+ *
+ * @param room 要规划的房间
+ */
+export const previewLayout = function (room: Room): void {
+  if (getRoomPlan(room.name) || Game.cpu.bucket < PLAN_MIN_BUCKET) return;
+  planRoom(room);
+};
+
+/**
+ * 房间建造器
+ * 房间没有布局时先进行规划，控制器等级变化时按照布局放置新解锁的工地
+ * 达到 RAMPART_BUILD_LEVEL 后会在最小割的位置上放置 rampart
+ *
+ * @param room 要建造的房间
+ */
+export const runBuilder = function (room: Room): void {
+  const controller = room.controller;
+  if (!controller?.my) return;
+
+  room.memory.sites = room.find(FIND_MY_CONSTRUCTION_SITES).length;
+  updateRampartHits(room);
+
+  // 没有规划、规划的格式版本已经过期或者只有占领前的预览规划时重新规划
+  const plan = getRoomPlan(room.name);
+  if (!plan || !room.memory.targets) {
+    // 规划很耗 cpu，规划完的下一 tick 再放置工地
+    if (Game.cpu.bucket >= PLAN_MIN_BUCKET) planRoom(room);
+    return;
+  }
+
+  if (room.memory.level === controller.level && Game.time % REBUILD_INTERVAL !== 0) return;
+
+  const { placed, full } = placeSites(room, plan, controller.level);
+  room.memory.sites += placed;
+  // 工地满了的话下个 tick 继续放
+  if (!full) room.memory.level = controller.level;
+};
@@ -0,0 +1,333 @@
+/**
+ * 房间防御
+ *
+ * 每 tick 根据房间内的敌人评估威胁：按身体部件和强化把敌人分为侦查、NPC、骚扰和攻城四类，
+ * 并估算敌人的总伤害和总治疗量。有威胁时孵化 defender，塔打不过时作为补充
+ * 塔和 defender 打不过敌人，并且敌人突破建成的 rampart 或者核心建筑受损时开启安全模式作为最后手段
+ * 其他模块通过 isDefenseMode 查询房间是否处于防御模式
+ */
+
+import { buildBodyPure } from "@/Creep/body";
+import { CreepRole } from "@/Creep/types";
+import { getTowerPowerPure } from "@/Room/autoPlanner";
+import { getRoomPlan } from "@/Room/layoutStore";
+import { getSafeMatrix } from "@/Room/safeArea";
+import { addSpawnTask } from "@/Room/spawnQueue";
+import { getBoostEffect } from "@/Room/tower";
+import { SpawnTask, ThreatMemory, ThreatType } from "@/Room/types";
+import { red } from "@/utils/color";
+
+/**
+ * NPC 入侵者的用户名
+ */
+const INVADER_USERNAME = "Invader";
+
+/**
+ * 攻击部件（ATTACK、RANGED_ATTACK、WORK、HEAL）达到该数量的玩家部队视为攻城
+ */
+const SIEGE_PARTS = 30;
+
+/**
+ * 同时存在的 defender 数量上限
+ */
+const MAX_DEFENDERS = 4;
+
+/**
+ * 威胁类型的严重程度，用于取所有敌人中威胁最大的类型
+ */
+const THREAT_LEVEL: { [type in ThreatType]: number } = {
+  [ThreatType.Scout]: 0,
+  [ThreatType.Invader]: 1,
+  [ThreatType.Harasser]: 2,
+  [ThreatType.Siege]: 3
+};
+
+/**
+ * 被打到时需要开启安全模式的核心建筑
+ */
+const CRITICAL_STRUCTURES: StructureConstant[] = [
+  STRUCTURE_SPAWN,
+  STRUCTURE_STORAGE,
+  STRUCTURE_TERMINAL,
+  STRUCTURE_TOWER
+];
+
+/**
+ * 评估威胁时需要的敌人信息
+ */
+export interface HostileBody {
+  owner: string; // 敌人的用户名
+  body: Pick<BodyPartDefinition, "type" | "boost" | "hits">[];
+}
+
+/**
+ * 根据身体部件给敌人分类（纯函数版本）
+ *
+ * @param hostile 敌人
+ */
+export function classifyHostilePure(hostile: HostileBody): ThreatType {
+  if (hostile.owner === INVADER_USERNAME) return ThreatType.Invader;
+
+  let combatParts = 0;
+  let boosted = false;
+  for (const part of hostile.body) {
+    if (part.type !== ATTACK && part.type !== RANGED_ATTACK && part.type !== WORK && part.type !== HEAL) continue;
+    combatParts++;
+    if (part.boost) boosted = true;
+  }
+
+  if (combatParts === 0) return ThreatType.Scout;
+  return boosted || combatParts >= SIEGE_PARTS ? ThreatType.Siege : ThreatType.Harasser;
+}
+
+/**
+ * 计算敌人每 tick 的伤害和治疗量（纯函数版本），已经被打坏的部件不计算在内
+ *
+ * @param body 敌人的身体部件
+ */
+export function getHostileStatsPure(body: HostileBody["body"]): { damage: number; heal: number } {
+  let damage = 0;
+  let heal = 0;
+  for (const part of body) {
+    if (part.hits === 0) continue;
+    if (part.type === ATTACK) damage += ATTACK_POWER * getBoostEffect(part, "attack");
+    else if (part.type === RANGED_ATTACK) damage += RANGED_ATTACK_POWER * getBoostEffect(part, "rangedAttack");
+    else if (part.type === WORK) damage += DISMANTLE_POWER * getBoostEffect(part, "dismantle");
+    else if (part.type === HEAL) heal += HEAL_POWER * getBoostEffect(part, "heal");
+  }
+  return { damage, heal };
+}
+
+/**
+ * 评估房间内所有敌人的威胁（纯函数版本）
+ *
+ * @param hostiles 房间内所有的敌人
+ * @param since 威胁开始的时间
+ * @returns 没有敌人时返回 undefined
+ */
+export function assessThreatPure(hostiles: HostileBody[], since: number): ThreatMemory | undefined {
+  if (hostiles.length === 0) return undefined;
+
+  const threat: ThreatMemory = { type: ThreatType.Scout, damage: 0, heal: 0, since };
+  for (const hostile of hostiles) {
+    const type = classifyHostilePure(hostile);
+    if (THREAT_LEVEL[type] > THREAT_LEVEL[threat.type]) threat.type = type;
+
+    const { damage, heal } = getHostileStatsPure(hostile.body);
+    threat.damage += damage;
+    threat.heal += heal;
+  }
+  return threat;
+}
+
+/**
+ * 计算需要多少个 defender（纯函数版本）
+ * 塔在最远距离上的伤害打得过敌人的治疗时交给塔处理，攻城时至少孵化一个
+ *
+ * @param threat 房间当前面临的威胁
+ * @param towerDamage 所有塔在最远距离上每 tick 的伤害
+ * @param defenderDamage 每个 defender 每 tick 的伤害
+ */
+export function getDefenderCountPure(threat: ThreatMemory, towerDamage: number, defenderDamage: number): number {
+  if (threat.type === ThreatType.Scout || defenderDamage <= 0) return 0;
+
+  const remaining = threat.heal - towerDamage;
+  const count = remaining >= 0 ? Math.ceil((remaining + 1) / defenderDamage) : 0;
+  const minimum = threat.type === ThreatType.Siege ? 1 : 0;
+  return Math.min(MAX_DEFENDERS, Math.max(minimum, count));
+}
+
+/**
+ * 从孵化队列中去掉多余的 defender 任务（纯函数版本），先去掉排在后面的
+ *
+ * @param queue 孵化队列
+ * @param excess 要去掉的数量
+ */
+export function dropDefenderTasksPure(queue: SpawnTask[], excess: number): SpawnTask[] {
+  const result: SpawnTask[] = [];
+  let dropped = 0;
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].role === CreepRole.Defender && dropped < excess) dropped++;
+    else result.unshift(queue[i]);
+  }
+  return result;
+}
+
+/**
+ * 敌人是否压制了我方的火力（纯函数版本）：敌人的治疗量不低于塔和 defender 的总伤害
+ *
+ * @param threat 房间当前面临的威胁
+ * @param towerDamage 所有塔在最远距离上每 tick 的伤害
+ * @param defenderDamage 房间内所有 defender 每 tick 的伤害
+ */
+export function isOutgunnedPure(threat: ThreatMemory, towerDamage: number, defenderDamage: number): boolean {
+  return threat.heal >= towerDamage + defenderDamage;
+}
+
+/**
+ * 房间是否处于防御模式（有侦查以外的敌人）
+ *
+ * @param room 房间
+ */
+export const isDefenseMode = function (room: Room): boolean {
+  const threat = room.memory.threat;
+  return !!threat && threat.type !== ThreatType.Scout;
+};
+
+/**
+ * 获取房间当前面临的威胁
+ *
+ * @param room 房间
+ * @returns 没有敌人时返回 undefined
+ */
+export const getThreat = function (room: Room): ThreatMemory | undefined {
+  return room.memory.threat;
+};
+
+/**
+ * 去掉孵化队列中多余的 defender 任务
+ *
+ * @param room 自己的房间
+ * @param excess 要去掉的数量
+ */
+const dropDefenderTasks = function (room: Room, excess: number): void {
+  const queue = room.memory.spawnQueue;
+  if (!queue || excess <= 0) return;
+  room.memory.spawnQueue = dropDefenderTasksPure(queue, excess);
+};
+
+/**
+ * 更新房间的威胁，威胁出现、升级和解除时输出日志
+ * 威胁解除时去掉还没有孵化的 defender
+ *
+ * @param room 自己的房间
+ * @param hostiles 房间内所有的敌人
+ */
+const updateThreat = function (room: Room, hostiles: Creep[]): void {
+  const previous = room.memory.threat;
+  const threat = assessThreatPure(
+    hostiles.map(creep => ({ owner: creep.owner.username, body: creep.body })),
+    previous?.since ?? Game.time
+  );
+
+  if (!threat) {
+    if (previous) console.log(`[defense] 房间 ${room.name} 的威胁已解除，持续 ${Game.time - previous.since} tick`);
+    delete room.memory.threat;
+    dropDefenderTasks(room, Infinity);
+    return;
+  }
+
+  if (!previous || THREAT_LEVEL[threat.type] > THREAT_LEVEL[previous.type]) {
+    const owners = [...new Set(hostiles.map(creep => creep.owner.username))].join(", ");
+    console.log(
+      `[defense] 房间 ${room.name} 发现 ${threat.type} 威胁（${owners}）：伤害 ${threat.damage}，治疗 ${threat.heal}`
+    );
+  }
+  room.memory.threat = threat;
+};
+
+/**
+ * 计算所有塔在最远距离上每 tick 的伤害
+ *
+ * @param room 自己的房间
+ */
+const getTowerDamage = function (room: Room): number {
+  const towers = room.find(FIND_MY_STRUCTURES, { filter: s => s.structureType === STRUCTURE_TOWER }).length;
+  return towers * getTowerPowerPure(TOWER_POWER_ATTACK, TOWER_FALLOFF_RANGE);
+};
+
+/**
+ * 按照威胁孵化 defender，需要的数量减少时去掉多余的孵化任务
+ * defender 的任务带有 targetRoom，不会被角色配额清理
+ *
+ * @param room 自己的房间
+ * @param threat 房间当前面临的威胁
+ */
+const spawnDefenders = function (room: Room, threat: ThreatMemory): void {
+  const towerDamage = getTowerDamage(room);
+  const body = buildBodyPure(CreepRole.Defender, room.energyCapacityAvailable);
+  const defenderDamage = body.filter(part => part === ATTACK).length * ATTACK_POWER;
+  const needed = getDefenderCountPure(threat, towerDamage, defenderDamage);
+
+  const queued = (room.memory.spawnQueue || []).filter(task => task.role === CreepRole.Defender).length;
+  const alive = room.countRole(CreepRole.Defender);
+  dropDefenderTasks(room, Math.min(queued, alive + queued - needed));
+  for (let count = alive + queued; count < needed; count++) {
+    addSpawnTask(room, CreepRole.Defender, { targetRoom: room.name });
+  }
+};
+
+/**
+ * rampart 防线是否已经完整建成，只有这时才能用规划的暴露区域判断敌人是否突破了防线
+ *
+ * @param room 自己的房间
+ */
+const isRampartComplete = function (room: Room): boolean {
+  const planned = getRoomPlan(room.name)?.rampart;
+  if (!planned || planned.length === 0) return false;
+
+  const built = new Set(
+    room
+      .find(FIND_MY_STRUCTURES, { filter: s => s.structureType === STRUCTURE_RAMPART })
+      .map(rampart => rampart.pos.x * 50 + rampart.pos.y)
+  );
+  return planned.every(([x, y]) => built.has(x * 50 + y));
+};
+
+/**
+ * 是否需要开启安全模式：塔和 defender 打不过敌人，
+ * 并且有会造成伤害的敌人进入了建成的 rampart 内侧，或者核心建筑正在被攻击
+ *
+ * @param room 自己的房间
+ * @param threat 房间当前面临的威胁
+ * @param hostiles 房间内所有的敌人
+ */
+const needSafeMode = function (room: Room, threat: ThreatMemory, hostiles: Creep[]): boolean {
+  const attackers = hostiles.filter(creep => getHostileStatsPure(creep.body).damage > 0);
+  if (attackers.length === 0) return false;
+
+  const defenderDamage = room
+    .find(FIND_MY_CREEPS, { filter: creep => creep.memory.role === CreepRole.Defender })
+    .reduce((total, creep) => total + getHostileStatsPure(creep.body).damage, 0);
+  if (!isOutgunnedPure(threat, getTowerDamage(room), defenderDamage)) return false;
+
+  const safeMatrix = isRampartComplete(room) && getSafeMatrix(room);
+  if (safeMatrix && attackers.some(creep => safeMatrix.get(creep.pos.x, creep.pos.y) !== 0xff)) return true;
+
+  return room
+    .find(FIND_MY_STRUCTURES, { filter: s => CRITICAL_STRUCTURES.includes(s.structureType) && s.hits < s.hitsMax })
+    .some(structure => attackers.some(creep => creep.pos.inRangeTo(structure, 3)));
+};
+
+/**
+ * 作为最后手段开启安全模式，NPC 和侦查不会触发
+ *
+ * @param room 自己的房间
+ * @param threat 房间当前面临的威胁
+ * @param hostiles 房间内所有的敌人
+ */
+const checkSafeMode = function (room: Room, threat: ThreatMemory, hostiles: Creep[]): void {
+  const { controller } = room;
+  if (!controller || controller.safeMode || controller.safeModeCooldown || !controller.safeModeAvailable) return;
+  if (threat.type !== ThreatType.Harasser && threat.type !== ThreatType.Siege) return;
+  if (!needSafeMode(room, threat, hostiles)) return;
+
+  if (controller.activateSafeMode() === OK) {
+    console.log(red(`[defense] 房间 ${room.name} 防线被突破，已开启安全模式`, true));
+  }
+};
+
+/**
+ * 运行房间防御：评估威胁、孵化 defender、必要时开启安全模式
+ *
+ * @param room 自己的房间
+ */
+export const runDefense = function (room: Room): void {
+  const hostiles = room.find(FIND_HOSTILE_CREEPS);
+  updateThreat(room, hostiles);
+
+  const threat = room.memory.threat;
+  if (!threat) return;
+  spawnDefenders(room, threat);
+  checkSafeMode(room, threat, hostiles);
+};
@@ -0,0 +1,229 @@
+/**
+ * 扩张选址
+ *
+ * 根据侦查情报给可以占领的房间打分，房间的地形会先用布局规划器评估一次：
+ * 完整的布局能不能放下，以及需要多少 rampart
+ * 在控制台执行 expansionRooms() 查看排名
+ */
+
+import {
+  createLayoutSearch,
+  createTerrainPathFinder,
+  deserialize,
+  getBestCandidate,
+  getMissingStructuresPure,
+  LayoutSearch,
+  LayoutTarget,
+  runLayoutSearch
+} from "@/Room/autoPlanner";
+import { getIntel, getMyUsername } from "@/Room/intel";
+import { ExpansionLayout, RoomIntel } from "@/Room/types";
+
+/**
+ * 离最近的自己房间最多多少距离（直线距离）才考虑扩张
+ */
+const EXPANSION_MAX_DISTANCE = 5;
+
+/**
+ * 每 tick 最多用于评估地形的 cpu
+ */
+const EVALUATE_CPU_BUDGET = 10;
+
+/**
+ * bucket 低于该值时不评估地形
+ */
+const EVALUATE_MIN_BUCKET = 5000;
+
+/**
+ * 打分时各项的权重
+ */
+const EXPANSION_WEIGHTS = {
+  source: 100, // 每个能量源
+  newMineral: 40, // 自己还没有的矿物
+  rampart: -2, // 每个需要的 rampart
+  distance: -20, // 离最近的自己房间的每格距离
+  hostileStructure: -5 // 每个需要拆除的别人的建筑
+};
+
+/**
+ * 扩张候选房间
+ */
+export interface ExpansionCandidate {
+  roomName: string;
+  score: number;
+  distance: number;
+}
+
+/**
+ * 正在评估地形的房间，只保存在堆上，global 重置后重新评估
+ */
+let evaluation: { roomName: string; search: LayoutSearch } | undefined;
+
+/**
+ * 房间是否可以占领（纯函数版本）：有控制器和矿物，没有被别人占领或者预定
+ *
+ * @param intel 房间情报
+ * @param username 自己的用户名
+ */
+export function isClaimablePure(intel: RoomIntel, username: string | undefined): boolean {
+  const { controller } = intel;
+  if (!controller || !intel.mineral || intel.sources.length === 0) return false;
+  return !controller.owner && (!controller.reservation || controller.reservation === username);
+}
+
+/**
+ * 给扩张房间打分（纯函数版本），分数越高越好
+ *
+ * @param intel 房间情报
+ * @param distance 离最近的自己房间的直线距离
+ * @param username 自己的用户名
+ * @param ownedMinerals 自己房间已有的矿物类型
+ * @returns 不能占领、地形还没有评估或者放不下完整布局时返回 undefined
+ */
+export function scoreExpansionPure(
+  intel: RoomIntel,
+  distance: number,
+  username: string | undefined,
+  ownedMinerals: MineralConstant[]
+): number | undefined {
+  if (!isClaimablePure(intel, username) || !intel.layout || intel.layout.missing > 0) return undefined;
+
+  let hostileStructures = 0;
+  for (const type in intel.hostileStructures) hostileStructures += intel.hostileStructures[type];
+
+  let score = intel.sources.length * EXPANSION_WEIGHTS.source;
+  if (intel.mineral && !ownedMinerals.includes(intel.mineral.type)) score += EXPANSION_WEIGHTS.newMineral;
+  score += intel.layout.ramparts * EXPANSION_WEIGHTS.rampart;
+  score += distance * EXPANSION_WEIGHTS.distance;
+  score += hostileStructures * EXPANSION_WEIGHTS.hostileStructure;
+  return score;
+}
+
+/**
+ * 获取离最近的自己房间的直线距离
+ *
+ * @param roomName 房间名
+ */
+const getOwnedDistance = function (roomName: string): number {
+  let distance = Infinity;
+  for (const name in Game.rooms) {
+    if (!Game.rooms[name].myOwned()) continue;
+    distance = Math.min(distance, Game.map.getRoomLinearDistance(roomName, name));
+  }
+  return distance;
+};
+
+/**
+ * 把情报中的目标转换为布局规划使用的目标
+ */
+const toTarget = (target: { id: string; pos: string }): LayoutTarget => ({
+  id: target.id,
+  pos: deserialize(target.pos)
+});
+
+/**
+ * 找到下一个需要评估地形的房间
+ */
+const findUnevaluatedRoom = function (): string | undefined {
+  const username = getMyUsername();
+  for (const roomName in Memory.intel) {
+    const intel = Memory.intel[roomName];
+    if (intel.layout || !isClaimablePure(intel, username)) continue;
+    if (getOwnedDistance(roomName) <= EXPANSION_MAX_DISTANCE) return roomName;
+  }
+  return undefined;
+};
+
+/**
+ * 开始评估房间的地形，只规划一个候选布局
+ *
+ * @param intel 房间情报
+ */
+const startEvaluation = function (intel: RoomIntel): LayoutSearch | undefined {
+  if (!intel.mineral || !intel.controller) return undefined;
+  return createLayoutSearch(intel.sources.map(toTarget), toTarget(intel.mineral), toTarget(intel.controller), [], {
+    count: 1
+  });
+};
+
+/**
+ * 根据完成的布局搜索生成地形评估结果
+ *
+ * @param search 完成的布局搜索
+ */
+const getExpansionLayout = function (search: LayoutSearch): ExpansionLayout {
+  const best = getBestCandidate(search);
+  const missing = getMissingStructuresPure(search.candidates[0].job.layout);
+  // 布局完成了但是评分失败（例如有建筑无法到达）同样视为放不下
+  if (!best?.result) return { missing: Math.max(1, missing), ramparts: 0, score: 0 };
+  return { missing, ramparts: best.result.ramparts.length, score: best.result.score.total };
+};
+
+/**
+ * 评估候选房间的地形，每 tick 最多使用 EVALUATE_CPU_BUDGET，一次只评估一个房间
+ * 需要每 tick 执行一次
+ */
+export const runExpansion = function (): void {
+  if (Game.cpu.bucket < EVALUATE_MIN_BUCKET) return;
+
+  const startCpu = Game.cpu.getUsed();
+  if (!evaluation) {
+    const roomName = findUnevaluatedRoom();
+    const intel = roomName && getIntel(roomName);
+    const search = intel && startEvaluation(intel);
+    if (!roomName || !search) return;
+    evaluation = { roomName, search };
+  }
+
+  const { roomName, search } = evaluation;
+  const progress = runLayoutSearch(search, new Room.Terrain(roomName), createTerrainPathFinder(roomName), () => {
+    return Game.cpu.getUsed() - startCpu >= EVALUATE_CPU_BUDGET;
+  });
+  if (!progress.done) return;
+
+  evaluation = undefined;
+  const intel = getIntel(roomName);
+  if (!intel) return;
+  intel.layout = getExpansionLayout(search);
+  console.log(
+    `[expansion] 房间 ${roomName} 地形评估完成：缺少建筑 ${intel.layout.missing}，rampart ${intel.layout.ramparts}`
+  );
+};
+
+/**
+ * 获取扩张候选房间的排名，分数从高到低
+ */
+export const rankExpansionRooms = function (): ExpansionCandidate[] {
+  const username = getMyUsername();
+  const ownedMinerals: MineralConstant[] = [];
+  for (const roomName in Memory.intel) {
+    const intel = Memory.intel[roomName];
+    if (intel.mineral && username && intel.controller?.owner === username) {
+      ownedMinerals.push(intel.mineral.type);
+    }
+  }
+
+  const candidates: ExpansionCandidate[] = [];
+  for (const roomName in Memory.intel) {
+    const distance = getOwnedDistance(roomName);
+    if (distance > EXPANSION_MAX_DISTANCE) continue;
+
+    const score = scoreExpansionPure(Memory.intel[roomName], distance, username, ownedMinerals);
+    if (score !== undefined) candidates.push({ roomName, score, distance });
+  }
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 挂载扩张选址的控制台命令
+ * 需要在全局重置时执行一次
+ */
+export const mountExpansion = function (): void {
+  global.expansionRooms = function (): string {
+    const candidates = rankExpansionRooms();
+    if (candidates.length === 0) return "[expansion] 没有可以扩张的房间，等待侦查或者地形评估";
+    return candidates
+      .map(({ roomName, score, distance }, index) => `${index + 1}. ${roomName} 分数 ${score} 距离 ${distance}`)
+      .join("\n");
+  };
+};
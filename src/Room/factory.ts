@@ -0,0 +1,346 @@
+/**
+ * factory 生产
+ *
+ * 每隔一段时间按照房间配置的规则优先级选出生产目标，例如能量充足时压缩电池、本房间矿物过多时压缩成 bar、
+ * 能量不足时把电池解压成能量，有等级的 factory 生产对应等级的商品
+ * 原料和产物的搬运由 manager 完成（见 getFactoryTasks 和 runTransport），只有产物能被搬走时才会生产
+ * 在控制台执行 factoryPriority("W1N1", "energy", "bar") 设置生产规则的优先级
+ */
+
+import { CreepRole } from "@/Creep/types";
+import { getStock, Stock } from "@/Room/labs";
+import { getDepositFree, TransportTask } from "@/Room/transport";
+import { FactoryMemory, FactoryRule } from "@/Room/types";
+
+/**
+ * 默认的生产规则优先级
+ */
+const DEFAULT_PRIORITIES: FactoryRule[] = [
+  FactoryRule.Energy,
+  FactoryRule.Commodity,
+  FactoryRule.Bar,
+  FactoryRule.Battery
+];
+
+/**
+ * 库存中的能量达到该值时压缩电池
+ */
+const BATTERY_ENERGY = 300000;
+
+/**
+ * 库存中的能量低于该值时解压电池
+ */
+const LOW_ENERGY = 100000;
+
+/**
+ * 库存中本房间的矿物达到该值时压缩成 bar
+ */
+const BAR_MINERAL = 30000;
+
+/**
+ * 产物的库存达到该值时不再生产
+ */
+const MAX_PRODUCT = 10000;
+
+/**
+ * factory 中的原料少于多少批时补充
+ */
+const REFILL_BATCHES = 2;
+
+/**
+ * 每次补充原料时补到多少批
+ */
+const FILL_BATCHES = 10;
+
+/**
+ * factory 中的产物达到该数量时搬走
+ */
+const OUTPUT_EMPTY_AMOUNT = 1000;
+
+/**
+ * factory 中的产物达到该数量时说明没有及时搬走，暂停生产
+ */
+const OUTPUT_LIMIT = 5000;
+
+/**
+ * terminal 和 storage 的剩余容量之和低于该值时暂停生产，避免产物没有地方存放
+ */
+const DEPOSIT_FREE_MIN = 20000;
+
+/**
+ * 每隔多少 tick 重新选择一次生产目标
+ */
+const CHECK_INTERVAL = 50;
+
+/**
+ * 矿物对应的 bar
+ */
+const MINERAL_BARS: { [mineral: string]: CommodityConstant } = {
+  [RESOURCE_HYDROGEN]: RESOURCE_REDUCTANT,
+  [RESOURCE_OXYGEN]: RESOURCE_OXIDANT,
+  [RESOURCE_UTRIUM]: RESOURCE_UTRIUM_BAR,
+  [RESOURCE_LEMERGIUM]: RESOURCE_LEMERGIUM_BAR,
+  [RESOURCE_KEANIUM]: RESOURCE_KEANIUM_BAR,
+  [RESOURCE_ZYNTHIUM]: RESOURCE_ZYNTHIUM_BAR,
+  [RESOURCE_CATALYST]: RESOURCE_PURIFIER
+};
+
+/**
+ * 各等级 factory 生产的商品，只使用 bar 作为原料
+ */
+const LEVEL_COMMODITIES: { [level: number]: CommodityConstant } = {
+  1: RESOURCE_COMPOSITE,
+  2: RESOURCE_CRYSTAL,
+  3: RESOURCE_LIQUID
+};
+
+/**
+ * 获取生产规则对应的产物（纯函数版本），不需要生产时返回 undefined
+ *
+ * @param rule 生产规则
+ * @param stock storage 和 terminal 中的库存
+ * @param mineral 本房间的矿物
+ * @param level factory 的等级，没有等级或者没有 PWR_OPERATE_FACTORY 效果时为 0
+ */
+export function getRuleProductPure(
+  rule: FactoryRule,
+  stock: Stock,
+  mineral: MineralConstant | undefined,
+  level: number
+): CommoditiesTypes | undefined {
+  const below = (product: CommoditiesTypes) => ((stock[product] ?? 0) < MAX_PRODUCT ? product : undefined);
+  switch (rule) {
+    case FactoryRule.Energy:
+      return (stock[RESOURCE_ENERGY] ?? 0) < LOW_ENERGY ? RESOURCE_ENERGY : undefined;
+    case FactoryRule.Battery:
+      return (stock[RESOURCE_ENERGY] ?? 0) >= BATTERY_ENERGY ? below(RESOURCE_BATTERY) : undefined;
+    case FactoryRule.Bar: {
+      const bar = mineral && MINERAL_BARS[mineral];
+      return bar && (stock[mineral] ?? 0) >= BAR_MINERAL ? below(bar) : undefined;
+    }
+    case FactoryRule.Commodity: {
+      const commodity = LEVEL_COMMODITIES[level];
+      return commodity && below(commodity);
+    }
+  }
+}
+
+/**
+ * factory 能否生产一批产物（纯函数版本）：等级符合并且原料足够
+ *
+ * @param product 产物
+ * @param level factory 的等级
+ * @param stock 可以用来生产的原料
+ */
+export function canProducePure(product: CommoditiesTypes, level: number, stock: Stock): boolean {
+  const commodity = COMMODITIES[product];
+  if (commodity.level !== undefined && commodity.level !== level) return false;
+  return Object.entries(commodity.components).every(([resource, amount]) => (stock[resource] ?? 0) >= amount);
+}
+
+/**
+ * 按照规则优先级选择生产目标（纯函数版本）
+ *
+ * @param priorities 生产规则的优先级
+ * @param stock storage 和 terminal 中的库存
+ * @param factory factory 中的资源
+ * @param mineral 本房间的矿物
+ * @param level factory 的等级
+ * @returns 没有可以生产的产物时返回 undefined
+ */
+export function chooseProductPure(
+  priorities: FactoryRule[],
+  stock: Stock,
+  factory: Stock,
+  mineral: MineralConstant | undefined,
+  level: number
+): CommoditiesTypes | undefined {
+  const total: Stock = { ...stock };
+  for (const resource in factory) total[resource] = (total[resource] ?? 0) + (factory[resource] ?? 0);
+
+  for (const rule of priorities) {
+    const product = getRuleProductPure(rule, stock, mineral, level);
+    if (product && canProducePure(product, level, total)) return product;
+  }
+  return undefined;
+}
+
+/**
+ * 获取 factory 的搬运任务（纯函数版本）
+ * 先搬走积攒的产物和用不上的资源，再把原料补充到若干批的数量
+ *
+ * @param id factory 的 id
+ * @param factory factory 中的资源
+ * @param product 当前的生产目标
+ * @param stock storage 和 terminal 中的库存
+ */
+export function getFactoryTasksPure(
+  id: string,
+  factory: Stock,
+  product: CommoditiesTypes | undefined,
+  stock: Stock
+): TransportTask[] {
+  const tasks: TransportTask[] = [];
+  const components: Stock = product ? COMMODITIES[product].components : {};
+
+  for (const resource in factory) {
+    const amount = factory[resource] ?? 0;
+    if (amount <= 0 || resource in components) continue;
+    if (resource === product && amount < OUTPUT_EMPTY_AMOUNT) continue;
+    tasks.push({ type: "empty", target: id, resource: resource as ResourceConstant, amount });
+  }
+
+  for (const resource in components) {
+    const batch = components[resource] ?? 0;
+    const current = factory[resource] ?? 0;
+    if (current >= batch * REFILL_BATCHES) continue;
+    const amount = Math.min(batch * FILL_BATCHES - current, stock[resource] ?? 0);
+    if (amount > 0) tasks.push({ type: "fill", target: id, resource: resource as ResourceConstant, amount });
+  }
+  return tasks;
+}
+
+/**
+ * 产物能否被搬走（纯函数版本）：terminal 或 storage 有空间、有 manager 并且 factory 中的产物没有积压
+ *
+ * @param depositFree terminal 和 storage 的剩余容量之和，见 getDepositFree
+ * @param managers 房间内 manager 的数量
+ * @param output factory 中已有的产物数量
+ * @param factoryFree factory 的剩余容量
+ * @param amount 一批的产量
+ */
+export function canEmptyOutputPure(
+  depositFree: number,
+  managers: number,
+  output: number,
+  factoryFree: number,
+  amount: number
+): boolean {
+  return depositFree >= DEPOSIT_FREE_MIN && managers > 0 && output < OUTPUT_LIMIT && factoryFree >= amount;
+}
+
+/**
+ * 获取房间内的 factory
+ *
+ * @param room 自己的房间
+ */
+const getFactory = function (room: Room): StructureFactory | undefined {
+  return room.find<StructureFactory>(FIND_MY_STRUCTURES, { filter: s => s.structureType === STRUCTURE_FACTORY })[0];
+};
+
+/**
+ * 获取 factory 中的资源
+ *
+ * @param factory factory
+ */
+const getFactoryStock = function (factory: StructureFactory): Stock {
+  const stock: Stock = {};
+  for (const resource in factory.store) stock[resource] = factory.store[resource as ResourceConstant];
+  return stock;
+};
+
+/**
+ * 获取 factory 生产时生效的等级，有等级的商品需要 PWR_OPERATE_FACTORY 效果
+ *
+ * @param factory factory
+ */
+const getFactoryLevel = function (factory: StructureFactory): number {
+  const operated = factory.effects?.some(effect => effect.effect === PWR_OPERATE_FACTORY);
+  return operated ? factory.level ?? 0 : 0;
+};
+
+/**
+ * 获取房间的 factory 状态，没有时初始化
+ *
+ * @param room 自己的房间
+ */
+const getFactoryMemory = function (room: Room): FactoryMemory {
+  if (!room.memory.factory) room.memory.factory = {};
+  return room.memory.factory;
+};
+
+/**
+ * 重新选择生产目标，变化时输出日志
+ *
+ * @param room 自己的房间
+ * @param factory 房间内的 factory
+ * @param memory 房间的 factory 状态
+ */
+const updateProduct = function (room: Room, factory: StructureFactory, memory: FactoryMemory): void {
+  const mineral = room.find(FIND_MINERALS)[0]?.mineralType;
+  const product = chooseProductPure(
+    memory.priorities ?? DEFAULT_PRIORITIES,
+    getStock(room),
+    getFactoryStock(factory),
+    mineral,
+    getFactoryLevel(factory)
+  );
+  if (product === memory.product) return;
+
+  console.log(`[factory] 房间 ${room.name} 的生产目标从 ${memory.product ?? "无"} 变为 ${product ?? "无"}`);
+  if (product) memory.product = product;
+  else delete memory.product;
+};
+
+/**
+ * 获取当前 manager 需要执行的 factory 搬运任务
+ *
+ * @param room 自己的房间
+ */
+export const getFactoryTasks = function (room: Room): TransportTask[] {
+  const memory = room.memory.factory;
+  const factory = memory && getFactory(room);
+  if (!memory || !factory) return [];
+  return getFactoryTasksPure(factory.id, getFactoryStock(factory), memory.product, getStock(room));
+};
+
+/**
+ * 运行房间的 factory：定期选择生产目标，原料齐全并且产物能被搬走时生产
+ *
+ * @param room 自己的房间
+ */
+export const runFactory = function (room: Room): void {
+  const factory = getFactory(room);
+  if (!factory) return;
+
+  const memory = getFactoryMemory(room);
+  if (Game.time % CHECK_INTERVAL === 0) updateProduct(room, factory, memory);
+
+  const product = memory.product;
+  if (!product || factory.cooldown > 0) return;
+  if (!canProducePure(product, getFactoryLevel(factory), getFactoryStock(factory))) return;
+
+  const { amount } = COMMODITIES[product];
+  const canEmpty = canEmptyOutputPure(
+    getDepositFree(room),
+    room.countRole(CreepRole.Manager),
+    factory.store[product],
+    factory.store.getFreeCapacity(),
+    amount
+  );
+  if (canEmpty) factory.produce(product);
+};
+
+/**
+ * 挂载 factory 的控制台命令
+ * 需要在全局重置时执行一次
+ */
+export const mountFactory = function (): void {
+  global.factoryPriority = function (roomName: string, ...rules: string[]): string {
+    const room = Game.rooms[roomName];
+    if (!room?.myOwned()) return `[factory] 房间 ${roomName} 不是自己的房间`;
+
+    const memory = getFactoryMemory(room);
+    if (rules.length === 0) {
+      delete memory.priorities;
+      return `[factory] 房间 ${roomName} 的生产规则恢复默认：${DEFAULT_PRIORITIES.join(" > ")}`;
+    }
+
+    const valid = Object.values(FactoryRule) as string[];
+    const invalid = rules.filter(rule => !valid.includes(rule));
+    if (invalid.length > 0) return `[factory] 未知的生产规则 ${invalid.join(", ")}，可选 ${valid.join(", ")}`;
+
+    memory.priorities = rules as FactoryRule[];
+    return `[factory] 房间 ${roomName} 的生产规则设置为：${rules.join(" > ")}`;
+  };
+};
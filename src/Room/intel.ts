@@ -0,0 +1,194 @@
+import { serialize } from "@/Room/autoPlanner";
+import { RoomIntel } from "@/Room/types";
+
+/**
+ * 同一个房间的情报至少间隔多少 tick 才更新一次
+ */
+export const INTEL_INTERVAL = 100;
+
+/**
+ * observer 侦查的范围（房间的直线距离）
+ */
+const SCOUT_RANGE = 3;
+
+/**
+ * 解析房间名，返回房间在世界中的坐标（纯函数版本）
+ * W0 和 E0 之间、N0 和 S0 之间没有空隙：W0 的 x 为 -1，E0 的 x 为 0，N0 的 y 为 -1，S0 的 y 为 0
+ *
+ * @param roomName 房间名，例如 W1N1
+ * @returns [x, y]，房间名格式错误时返回 undefined
+ */
+export function parseRoomNamePure(roomName: string): [number, number] | undefined {
+  const match = /^([WE])(\d+)([NS])(\d+)$/.exec(roomName);
+  if (!match) return undefined;
+
+  const x = match[1] === "W" ? -Number(match[2]) - 1 : Number(match[2]);
+  const y = match[3] === "N" ? -Number(match[4]) - 1 : Number(match[4]);
+  return [x, y];
+}
+
+/**
+ * 根据世界坐标获取房间名（纯函数版本），坐标规则见 parseRoomNamePure
+ *
+ * @param x 房间的 x 坐标
+ * @param y 房间的 y 坐标
+ */
+export function getRoomNamePure(x: number, y: number): string {
+  const horizontal = x < 0 ? `W${-x - 1}` : `E${x}`;
+  const vertical = y < 0 ? `N${-y - 1}` : `S${y}`;
+  return horizontal + vertical;
+}
+
+/**
+ * 获取指定范围内的所有房间（纯函数版本），不包含中心房间
+ *
+ * @param roomName 中心房间
+ * @param range 直线距离，和 Game.map.getRoomLinearDistance 一致
+ */
+export function getRoomsInRangePure(roomName: string, range: number): string[] {
+  const center = parseRoomNamePure(roomName);
+  if (!center) return [];
+
+  const rooms: string[] = [];
+  for (let dx = -range; dx <= range; dx++) {
+    for (let dy = -range; dy <= range; dy++) {
+      if (dx !== 0 || dy !== 0) rooms.push(getRoomNamePure(center[0] + dx, center[1] + dy));
+    }
+  }
+  return rooms;
+}
+
+/**
+ * 统计位置周围不是墙的格子数量
+ *
+ * @param room 房间
+ * @param pos 中心位置
+ */
+const countFreeSpots = function (room: Room, pos: RoomPosition): number {
+  const terrain = room.getTerrain();
+  let count = 0;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      if ((dx !== 0 || dy !== 0) && terrain.get(pos.x + dx, pos.y + dy) !== TERRAIN_MASK_WALL) count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * 收集房间的情报
+ *
+ * @param room 有视野的房间
+ */
+export const collectIntel = function (room: Room): RoomIntel {
+  const intel: RoomIntel = {
+    time: Game.time,
+    sources: room.find(FIND_SOURCES).map(source => ({ id: source.id, pos: serialize(source.pos) })),
+    hostileStructures: {}
+  };
+
+  const mineral = room.find(FIND_MINERALS)[0];
+  if (mineral) intel.mineral = { id: mineral.id, pos: serialize(mineral.pos), type: mineral.mineralType };
+
+  const { controller } = room;
+  if (controller) {
+    intel.controller = {
+      id: controller.id,
+      pos: serialize(controller.pos),
+      owner: controller.owner?.username,
+      reservation: controller.reservation?.username,
+      level: controller.level
+    };
+  }
+
+  for (const structure of room.find(FIND_HOSTILE_STRUCTURES)) {
+    const type = structure.structureType;
+    intel.hostileStructures[type] = (intel.hostileStructures[type] || 0) + 1;
+  }
+
+  const powerBank = room.find<StructurePowerBank>(FIND_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_POWER_BANK
+  })[0];
+  if (powerBank) {
+    intel.powerBank = {
+      id: powerBank.id,
+      pos: serialize(powerBank.pos),
+      power: powerBank.power,
+      hits: powerBank.hits,
+      decayAt: Game.time + powerBank.ticksToDecay,
+      freeSpots: countFreeSpots(room, powerBank.pos)
+    };
+  }
+
+  return intel;
+};
+
+/**
+ * 获取房间的情报
+ *
+ * @param roomName 房间名
+ * @returns 从来没有看到过该房间时返回 undefined
+ */
+export const getIntel = function (roomName: string): RoomIntel | undefined {
+  return Memory.intel?.[roomName];
+};
+
+/**
+ * 记录房间的情报，距离上次记录不足 INTEL_INTERVAL 时跳过
+ * 地形的布局评估不会变化，更新时会保留
+ *
+ * @param room 有视野的房间
+ */
+export const recordIntel = function (room: Room): void {
+  if (!Memory.intel) Memory.intel = {};
+  const previous = Memory.intel[room.name];
+  if (previous && Game.time - previous.time < INTEL_INTERVAL) return;
+
+  Memory.intel[room.name] = { ...collectIntel(room), layout: previous?.layout };
+};
+
+/**
+ * 使用 observer 侦查周围情报最旧的房间，侦查到的房间会在下一 tick 被 recordIntel 记录
+ *
+ * @param room 自己的房间
+ */
+export const runObserver = function (room: Room): void {
+  const observer = room.find<StructureObserver>(FIND_MY_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_OBSERVER
+  })[0];
+  if (!observer) return;
+
+  let target: string | undefined;
+  let oldest = Game.time - INTEL_INTERVAL;
+  for (const roomName of getRoomsInRangePure(room.name, SCOUT_RANGE)) {
+    if (Game.rooms[roomName] || Game.map.getRoomStatus(roomName)?.status === "closed") continue;
+
+    const time = getIntel(roomName)?.time ?? -Infinity;
+    if (time < oldest) {
+      oldest = time;
+      target = roomName;
+    }
+  }
+
+  if (target) observer.observeRoom(target);
+};
+
+/**
+ * 当前玩家的用户名
+ */
+let myUsername: string | undefined;
+
+/**
+ * 获取当前玩家的用户名，从自己的控制器上读取
+ */
+export const getMyUsername = function (): string | undefined {
+  if (myUsername) return myUsername;
+  for (const roomName in Game.rooms) {
+    const controller = Game.rooms[roomName].controller;
+    if (controller?.my) {
+      myUsername = controller.owner?.username;
+      break;
+    }
+  }
+  return myUsername;
+};
@@ -0,0 +1,436 @@
+/**
+ * lab 反应和强化
+ *
+ * 从布局规划的 lab 集群中选出两个输入 lab，其余 lab 都在两者的反应范围内
+ * 根据 storage 和 terminal 的库存，把目标化合物拆解成一步步的反应，每一批按照 填充 → 反应 → 清空 的阶段进行
+ * 原料的搬运由 manager 完成（见 getLabTasks 和 runTransport）
+ * 孵化时带有强化计划的 creep 会先请求强化，强化期间暂停反应，使用输出 lab 准备化合物
+ * 在控制台执行 labTarget("W1N1", "XGH2O", 3000) 设置目标化合物
+ */
+
+import { TransportTask } from "@/Room/transport";
+import { BoostRequest, LabMemory, LabReaction, ReactionStage } from "@/Room/types";
+
+/**
+ * 输入 lab 和输出 lab 之间的最远距离
+ */
+const REACTION_RANGE = 2;
+
+/**
+ * 一批反应最多生产多少，受输入 lab 容量的限制
+ */
+const MAX_BATCH = 3000;
+
+/**
+ * 输出 lab 中的产物达到该数量时先搬走
+ */
+const OUTPUT_EMPTY_AMOUNT = 2000;
+
+/**
+ * 每隔多少 tick 检查一次反应的阶段
+ */
+const CHECK_INTERVAL = 10;
+
+/**
+ * 强化请求的超时时间
+ */
+const BOOST_TIMEOUT = 300;
+
+/**
+ * 默认的目标化合物数量
+ */
+const DEFAULT_TARGET_AMOUNT = 3000;
+
+/**
+ * 规划 lab 搬运时需要的状态
+ */
+export interface LabState {
+  id: string;
+  mineralType?: ResourceConstant;
+  mineralAmount: number;
+  energy: number;
+}
+
+/**
+ * 库存，按资源类型索引
+ */
+export type Stock = { [resource: string]: number | undefined };
+
+/**
+ * 化合物的原料，由 REACTIONS 反向生成
+ */
+let reagentsCache: { [product: string]: [ResourceConstant, ResourceConstant] } | undefined;
+
+/**
+ * 选择两个输入 lab（纯函数版本）：在两者反应范围内的其他 lab 最多
+ *
+ * @param labs 所有 lab 的位置
+ * @returns 两个输入 lab 的下标，lab 少于 3 个时返回 undefined
+ */
+export function chooseInputLabsPure(labs: { x: number; y: number }[]): [number, number] | undefined {
+  const inRange = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+    Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) <= REACTION_RANGE;
+
+  let best: [number, number] | undefined;
+  let bestCount = 0;
+  for (let i = 0; i < labs.length; i++) {
+    for (let j = i + 1; j < labs.length; j++) {
+      let count = 0;
+      for (let k = 0; k < labs.length; k++) {
+        if (k !== i && k !== j && inRange(labs[k], labs[i]) && inRange(labs[k], labs[j])) count++;
+      }
+      if (count > bestCount) {
+        best = [i, j];
+        bestCount = count;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 获取化合物的两种原料（纯函数版本）
+ *
+ * @param compound 化合物
+ * @returns 基础矿物返回 undefined
+ */
+export function getReagentsPure(compound: ResourceConstant): [ResourceConstant, ResourceConstant] | undefined {
+  if (!reagentsCache) {
+    reagentsCache = {};
+    for (const a in REACTIONS) {
+      for (const b in REACTIONS[a]) {
+        // 每个反应在表中出现两次（原料顺序相反），保留第一次出现的顺序
+        const product = REACTIONS[a][b];
+        if (!reagentsCache[product]) reagentsCache[product] = [a as ResourceConstant, b as ResourceConstant];
+      }
+    }
+  }
+  return reagentsCache[compound];
+}
+
+/**
+ * 规划下一步反应（纯函数版本）
+ * 从目标化合物开始向下拆解，先生产缺少的原料，原料都有了再生产目标本身
+ *
+ * @param compound 目标化合物
+ * @param amount 目标数量
+ * @param stock 当前的库存
+ * @returns 已经足够或者缺少基础矿物时返回 undefined
+ */
+export function planReactionPure(compound: ResourceConstant, amount: number, stock: Stock): LabReaction | undefined {
+  const missing = amount - (stock[compound] ?? 0);
+  const reagents = getReagentsPure(compound);
+  if (missing < LAB_REACTION_AMOUNT || !reagents) return undefined;
+
+  for (const reagent of reagents) {
+    if ((stock[reagent] ?? 0) >= missing) continue;
+    const reaction = planReactionPure(reagent, missing, stock);
+    if (reaction) return reaction;
+  }
+
+  const available = Math.min(missing, MAX_BATCH, stock[reagents[0]] ?? 0, stock[reagents[1]] ?? 0);
+  const batch = Math.floor(available / LAB_REACTION_AMOUNT) * LAB_REACTION_AMOUNT;
+  if (batch <= 0) return undefined;
+  return { product: compound as MineralCompoundConstant, reagents, amount: batch };
+}
+
+/**
+ * 生成 manager 的 lab 搬运任务（纯函数版本），按 lab 的顺序排列
+ * - 强化 lab：清空其他化合物，填充需要的化合物和能量
+ * - 输入 lab：清空不是原料的资源，填充阶段补足原料
+ * - 输出 lab：清空不是产物的资源以及堆积过多的产物
+ * 清空阶段所有的 lab 都要清空
+ *
+ * @param labs 所有 lab 的状态
+ * @param memory 房间的 lab 状态
+ * @param stock 当前的库存，填充的数量不会超过库存
+ */
+export function getLabTasksPure(labs: LabState[], memory: LabMemory, stock: Stock): TransportTask[] {
+  const tasks: TransportTask[] = [];
+  const { inputs, reaction, stage, boost } = memory;
+  const empty = (lab: LabState) => {
+    if (lab.mineralType)
+      tasks.push({ type: "empty", target: lab.id, resource: lab.mineralType, amount: lab.mineralAmount });
+  };
+  const fill = (lab: LabState, resource: ResourceConstant, amount: number) => {
+    const available = Math.min(amount, stock[resource] ?? 0);
+    if (available > 0) tasks.push({ type: "fill", target: lab.id, resource, amount: available });
+  };
+
+  for (const lab of labs) {
+    const boostLab = boost?.labs[lab.id];
+    const inputIndex = inputs ? inputs.indexOf(lab.id) : -1;
+
+    if (boostLab) {
+      if (lab.mineralType && lab.mineralType !== boostLab.compound) empty(lab);
+      else if (lab.mineralAmount < boostLab.amount) fill(lab, boostLab.compound, boostLab.amount - lab.mineralAmount);
+      if (lab.energy < boostLab.energy) fill(lab, RESOURCE_ENERGY, boostLab.energy - lab.energy);
+    } else if (inputIndex >= 0) {
+      const reagent = reaction?.reagents[inputIndex];
+      if (lab.mineralType && (stage === ReactionStage.Empty || lab.mineralType !== reagent)) empty(lab);
+      else if (reaction && reagent && stage === ReactionStage.Fill && lab.mineralAmount < reaction.amount) {
+        fill(lab, reagent, reaction.amount - lab.mineralAmount);
+      }
+    } else if (
+      stage === ReactionStage.Empty ||
+      lab.mineralType !== reaction?.product ||
+      lab.mineralAmount >= OUTPUT_EMPTY_AMOUNT
+    ) {
+      empty(lab);
+    }
+  }
+  return tasks;
+}
+
+/**
+ * 获取房间内所有的 lab
+ *
+ * @param room 自己的房间
+ */
+const getLabs = function (room: Room): StructureLab[] {
+  return room.find<StructureLab>(FIND_MY_STRUCTURES, { filter: s => s.structureType === STRUCTURE_LAB });
+};
+
+/**
+ * 获取 lab 的状态
+ *
+ * @param lab lab
+ */
+const getLabState = function (lab: StructureLab): LabState {
+  return {
+    id: lab.id,
+    mineralType: lab.mineralType ?? undefined,
+    mineralAmount: lab.mineralType ? lab.store[lab.mineralType] : 0,
+    energy: lab.store[RESOURCE_ENERGY]
+  };
+};
+
+/**
+ * 统计 storage 和 terminal 中的库存
+ *
+ * @param room 自己的房间
+ */
+export const getStock = function (room: Room): Stock {
+  const stock: Stock = {};
+  for (const structure of [room.storage, room.terminal]) {
+    if (!structure) continue;
+    for (const resource in structure.store) {
+      stock[resource] = (stock[resource] ?? 0) + structure.store[resource as ResourceConstant];
+    }
+  }
+  return stock;
+};
+
+/**
+ * 获取房间的 lab 状态，没有时初始化
+ *
+ * @param room 自己的房间
+ */
+const getLabMemory = function (room: Room): LabMemory {
+  if (!room.memory.lab) room.memory.lab = { stage: ReactionStage.Empty };
+  return room.memory.lab;
+};
+
+/**
+ * 获取当前 manager 需要执行的 lab 搬运任务
+ *
+ * @param room 自己的房间
+ */
+export const getLabTasks = function (room: Room): TransportTask[] {
+  const memory = room.memory.lab;
+  if (!memory) return [];
+  return getLabTasksPure(getLabs(room).map(getLabState), memory, getStock(room));
+};
+
+/**
+ * 更新输入 lab，只在没有进行反应时更新，避免反应中途换掉输入 lab
+ *
+ * @param memory 房间的 lab 状态
+ * @param labs 房间内所有的 lab
+ */
+const updateInputs = function (memory: LabMemory, labs: StructureLab[]): void {
+  const valid = memory.inputs?.every(id => labs.some(lab => lab.id === id));
+  if (valid || memory.reaction) return;
+
+  const inputs = chooseInputLabsPure(labs.map(lab => lab.pos));
+  memory.inputs = inputs && [labs[inputs[0]].id, labs[inputs[1]].id];
+};
+
+/**
+ * 切换反应的阶段
+ * 填充完成后开始反应，原料用完后清空，清空完成后规划下一批
+ *
+ * @param room 自己的房间
+ * @param memory 房间的 lab 状态
+ * @param labs 房间内所有的 lab
+ */
+const updateStage = function (room: Room, memory: LabMemory, labs: StructureLab[]): void {
+  const stock = getStock(room);
+  const tasks = getLabTasksPure(labs.map(getLabState), memory, stock);
+  const inputs = memory.inputs?.map(id => labs.find(lab => lab.id === id));
+
+  if (memory.stage === ReactionStage.Fill) {
+    const filling = tasks.some(task => task.type === "fill" && memory.inputs?.includes(task.target));
+    if (!filling) memory.stage = ReactionStage.React;
+  } else if (memory.stage === ReactionStage.React) {
+    const exhausted = inputs?.some(lab => !lab?.mineralType || lab.store[lab.mineralType] < LAB_REACTION_AMOUNT);
+    if (exhausted) memory.stage = ReactionStage.Empty;
+  } else if (!labs.some(lab => lab.mineralType && !memory.boost?.labs[lab.id])) {
+    const { target } = memory;
+    delete memory.reaction;
+    updateInputs(memory, labs);
+    const reaction = target && memory.inputs && planReactionPure(target.compound, target.amount, stock);
+    if (!reaction) return;
+
+    memory.reaction = reaction;
+    memory.stage = ReactionStage.Fill;
+    console.log(`[labs] 房间 ${room.name} 开始生产 ${reaction.amount} ${reaction.product}`);
+  }
+};
+
+/**
+ * 让输出 lab 进行反应，强化中的 lab 不参与
+ *
+ * @param memory 房间的 lab 状态
+ * @param labs 房间内所有的 lab
+ */
+const runReaction = function (memory: LabMemory, labs: StructureLab[]): void {
+  if (!memory.inputs || !memory.reaction) return;
+  const [input1, input2] = memory.inputs.map(id => labs.find(lab => lab.id === id));
+  if (!input1 || !input2) return;
+
+  for (const lab of labs) {
+    if (lab === input1 || lab === input2 || lab.cooldown > 0 || memory.boost?.labs[lab.id]) continue;
+    lab.runReaction(input1, input2);
+  }
+};
+
+/**
+ * 运行房间的 lab
+ *
+ * @param room 自己的房间
+ */
+export const runLabs = function (room: Room): void {
+  const labs = getLabs(room);
+  if (labs.length < 3) return;
+
+  const memory = getLabMemory(room);
+  // 请求强化的 creep 已经死亡或者超时时取消强化
+  const { boost } = memory;
+  if (boost && (!Game.creeps[boost.creep] || Game.time - boost.since > BOOST_TIMEOUT)) delete memory.boost;
+
+  if (Game.time % CHECK_INTERVAL === 0) updateStage(room, memory, labs);
+  if (memory.stage === ReactionStage.React) runReaction(memory, labs);
+};
+
+/**
+ * 统计 lab 中某种化合物的数量
+ *
+ * @param labs lab
+ * @param compound 化合物
+ */
+const getLabAmount = function (labs: StructureLab[], compound: ResourceConstant): number {
+  return labs.reduce((total, lab) => total + (lab.mineralType === compound ? lab.store[compound] : 0), 0);
+};
+
+/**
+ * 为 creep 创建强化请求，每种化合物使用一个输出 lab，库存不足的化合物会被跳过
+ *
+ * @param room 负责强化的房间
+ * @param creep 要强化的 creep
+ * @returns 没有可以强化的部件时返回 undefined
+ */
+const createBoostRequest = function (room: Room, creep: Creep): BoostRequest | undefined {
+  const memory = getLabMemory(room);
+  const plan = creep.memory.boost || {};
+  const stock = getStock(room);
+  const labs = getLabs(room).filter(lab => !memory.inputs?.includes(lab.id));
+
+  const request: BoostRequest = { creep: creep.name, since: Game.time, labs: {} };
+  for (const part in plan) {
+    const compound = plan[part as BodyPartConstant];
+    const parts = creep.body.filter(p => p.type === part && !p.boost).length;
+    const amount = parts * LAB_BOOST_MINERAL;
+    if (!compound || parts === 0 || (stock[compound] ?? 0) + getLabAmount(labs, compound) < amount) continue;
+
+    // 优先使用已经装着该化合物的 lab
+    const lab =
+      labs.find(l => l.mineralType === compound && !request.labs[l.id]) ?? labs.find(l => !request.labs[l.id]);
+    if (!lab) break;
+    request.labs[lab.id] = { compound, amount, energy: parts * LAB_BOOST_ENERGY };
+  }
+  return Object.keys(request.labs).length > 0 ? request : undefined;
+};
+
+/**
+ * 强化 creep，需要在 creep 出生后、开始工作前每 tick 执行
+ * 同一个房间同时只强化一个 creep，其他 creep 排队等待
+ *
+ * @param creep 带有强化计划（memory.boost）的 creep
+ * @returns 强化是否已经结束（完成或者放弃）
+ */
+export const boostCreep = function (creep: Creep): boolean {
+  const room = Game.rooms[creep.memory.room];
+  const finish = () => {
+    delete creep.memory.boost;
+    if (room?.memory.lab?.boost?.creep === creep.name) delete room.memory.lab.boost;
+    return true;
+  };
+  if (!room?.myOwned() || creep.room.name !== room.name || getLabs(room).length < 3) return finish();
+  // 排队太久的话放弃强化，直接开始工作
+  if ((creep.ticksToLive ?? CREEP_LIFE_TIME) < CREEP_LIFE_TIME - BOOST_TIMEOUT * 2) return finish();
+
+  const memory = getLabMemory(room);
+  if (!memory.boost) {
+    const request = createBoostRequest(room, creep);
+    if (!request) return finish();
+    memory.boost = request;
+    console.log(`[labs] 房间 ${room.name} 开始准备强化 ${creep.name}`);
+  }
+  // 其他 creep 正在强化，排队等待
+  if (memory.boost.creep !== creep.name) return false;
+
+  for (const id in memory.boost.labs) {
+    const lab = Game.getObjectById(id as Id<StructureLab>);
+    const { compound, amount, energy } = memory.boost.labs[id];
+    if (!lab) return finish();
+    if (lab.mineralType !== compound || lab.store[compound] < amount || lab.store[RESOURCE_ENERGY] < energy) {
+      // 等待 manager 准备好化合物
+      if (!creep.pos.inRangeTo(lab, 3)) creep.moveTo(lab, { range: 3 });
+      return false;
+    }
+
+    if (!creep.pos.isNearTo(lab)) {
+      creep.moveTo(lab, { range: 1 });
+      return false;
+    }
+    if (lab.boostCreep(creep) === OK) delete memory.boost.labs[id];
+    return false;
+  }
+  return finish();
+};
+
+/**
+ * 挂载 lab 的控制台命令
+ * 需要在全局重置时执行一次
+ */
+export const mountLabs = function (): void {
+  global.labTarget = function (
+    roomName: string,
+    compound?: MineralCompoundConstant,
+    amount = DEFAULT_TARGET_AMOUNT
+  ): string {
+    const room = Game.rooms[roomName];
+    if (!room?.myOwned()) return `[labs] 房间 ${roomName} 不是自己的房间`;
+
+    const memory = getLabMemory(room);
+    if (!compound) {
+      delete memory.target;
+      return `[labs] 已取消房间 ${roomName} 的目标化合物，当前这一批反应完成后停止`;
+    }
+    if (!getReagentsPure(compound)) return `[labs] ${compound} 不是可以合成的化合物`;
+
+    memory.target = { compound, amount };
+    return `[labs] 房间 ${roomName} 的目标化合物设置为 ${amount} ${compound}`;
+  };
+};
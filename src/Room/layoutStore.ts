@@ -0,0 +1,150 @@
+/**
+ * 房间布局的压缩存储
+ *
+ * 布局会被压缩成一个字符串保存在 RoomMemory.layout 中，格式为：
+ * v{版本号}|{建筑代号}{坐标串}|{建筑代号}{坐标串}...
+ * 每个坐标压缩成一个字符，字符编码为 POS_CHAR_OFFSET + x * 50 + y
+ */
+
+import { createEmptyLayout, RoomLayout } from "@/Room/autoPlanner";
+
+/**
+ * 布局格式的版本号
+ * 修改了布局格式或者规划算法后需要增加该值，旧的规划会被丢弃并重新规划
+ */
+export const LAYOUT_VERSION = 6;
+
+/**
+ * 坐标压缩时使用的字符偏移量
+ * 从 CJK 统一表意文字区开始，2500 个字符都是可打印字符，不会被 JSON 转义
+ */
+const POS_CHAR_OFFSET = 0x4e00;
+
+/**
+ * 房间规划，包括建筑布局和 rampart 位置
+ */
+export interface RoomPlan {
+  layout: RoomLayout;
+  rampart: [number, number][];
+}
+
+/**
+ * 每种建筑在压缩串中的代号
+ */
+const TYPE_CODES: { [type in keyof RoomLayout | "rampart"]: string } = {
+  spawn: "s",
+  extension: "e",
+  extractor: "x",
+  factory: "f",
+  lab: "l",
+  tower: "t",
+  link: "k",
+  nuker: "n",
+  observer: "o",
+  powerSpawn: "p",
+  storage: "S",
+  terminal: "T",
+  container: "c",
+  road: "r",
+  rampart: "R"
+};
+
+/**
+ * 压缩坐标数组
+ *
+ * @param positions 坐标数组
+ */
+export function packPositions(positions: [number, number][]): string {
+  let result = "";
+  for (const [x, y] of positions) result += String.fromCharCode(POS_CHAR_OFFSET + x * 50 + y);
+  return result;
+}
+
+/**
+ * 解压坐标数组
+ *
+ * @param packed 压缩后的坐标串
+ */
+export function unpackPositions(packed: string): [number, number][] {
+  const positions: [number, number][] = [];
+  for (let i = 0; i < packed.length; i++) {
+    const index = packed.charCodeAt(i) - POS_CHAR_OFFSET;
+    positions.push([Math.floor(index / 50), index % 50]);
+  }
+  return positions;
+}
+
+/**
+ * 压缩房间规划
+ *
+ * @param plan 房间规划
+ */
+export function packPlan(plan: RoomPlan): string {
+  const segments = [`v${LAYOUT_VERSION}`];
+  for (const type in TYPE_CODES) {
+    const positions = type === "rampart" ? plan.rampart : plan.layout[type as keyof RoomLayout];
+    if (positions.length > 0) segments.push(TYPE_CODES[type as keyof typeof TYPE_CODES] + packPositions(positions));
+  }
+  return segments.join("|");
+}
+
+/**
+ * 解压房间规划
+ *
+ * @param packed 压缩后的规划
+ * @returns 房间规划，版本不匹配或格式错误时返回 undefined
+ */
+export function unpackPlan(packed: string): RoomPlan | undefined {
+  const [version, ...segments] = packed.split("|");
+  if (version !== `v${LAYOUT_VERSION}`) return undefined;
+
+  const plan: RoomPlan = { layout: createEmptyLayout(), rampart: [] };
+  for (const segment of segments) {
+    const type = (Object.keys(TYPE_CODES) as (keyof typeof TYPE_CODES)[]).find(key => TYPE_CODES[key] === segment[0]);
+    if (!type) return undefined;
+
+    const positions = unpackPositions(segment.slice(1));
+    if (type === "rampart") plan.rampart = positions;
+    else plan.layout[type] = positions;
+  }
+  return plan;
+}
+
+/**
+ * 解压后的规划缓存，避免每 tick 都解压
+ */
+const planCache: { [roomName: string]: { packed: string; plan: RoomPlan } } = {};
+
+/**
+ * 获取房间的规划
+ * 只读取内存，没有视野的房间也可以获取
+ *
+ * @param roomName 房间名称
+ * @returns 房间规划，没有规划或者规划已经过期时返回 undefined
+ */
+export const getRoomPlan = function (roomName: string): RoomPlan | undefined {
+  const packed = Memory.rooms?.[roomName]?.layout;
+  // 旧版本直接保存的是未压缩的布局对象，同样视为过期
+  if (typeof packed !== "string") return undefined;
+
+  const cached = planCache[roomName];
+  if (cached && cached.packed === packed) return cached.plan;
+
+  const plan = unpackPlan(packed);
+  if (!plan) return undefined;
+
+  planCache[roomName] = { packed, plan };
+  return plan;
+};
+
+/**
+ * 保存房间规划
+ *
+ * @param room 房间
+ * @param plan 房间规划
+ */
+export const saveRoomPlan = function (room: Room, plan: RoomPlan): void {
+  const packed = packPlan(plan);
+  room.memory.layout = packed;
+  planCache[room.name] = { packed, plan };
+};
@@ -0,0 +1,205 @@
+/**
+ * 房间布局预览
+ *
+ * 在控制台执行 showLayout("W1N1") 开启，hideLayout("W1N1") 关闭
+ * 直接读取内存中保存的规划进行绘制，不会重新规划
+ * 还没有占领的房间只要有视野就会先进行规划（见 previewLayout），之后即使失去视野也会继续绘制
+ */
+
+import { EXPOSED, getExposedArrayPure, RoomLayout } from "@/Room/autoPlanner";
+import { getRoomPlan, RoomPlan } from "@/Room/layoutStore";
+import { Color, COLOR_VALUE } from "@/utils/color";
+
+/**
+ * 建筑的图形
+ */
+interface Glyph {
+  shape: "circle" | "square" | "diamond"; // 形状
+  size: number; // 半径或者半边长
+  color: string; // 填充颜色
+  label?: string; // 图形中间的文字
+}
+
+/**
+ * 每种建筑的图形，道路单独绘制成连线
+ */
+const GLYPHS: { [type in Exclude<keyof RoomLayout, "road">]: Glyph } = {
+  spawn: { shape: "circle", size: 0.45, color: COLOR_VALUE[Color.Yellow], label: "S" },
+  extension: { shape: "circle", size: 0.25, color: COLOR_VALUE[Color.Yellow] },
+  tower: { shape: "circle", size: 0.4, color: COLOR_VALUE[Color.Red], label: "T" },
+  storage: { shape: "square", size: 0.4, color: COLOR_VALUE[Color.Yellow], label: "St" },
+  terminal: { shape: "diamond", size: 0.45, color: COLOR_VALUE[Color.Yellow], label: "Te" },
+  link: { shape: "diamond", size: 0.3, color: COLOR_VALUE[Color.Gray] },
+  lab: { shape: "circle", size: 0.4, color: COLOR_VALUE[Color.Blue], label: "L" },
+  factory: { shape: "square", size: 0.4, color: COLOR_VALUE[Color.Blue], label: "F" },
+  powerSpawn: { shape: "circle", size: 0.45, color: COLOR_VALUE[Color.Red], label: "P" },
+  nuker: { shape: "square", size: 0.4, color: COLOR_VALUE[Color.Red], label: "N" },
+  observer: { shape: "circle", size: 0.3, color: COLOR_VALUE[Color.Green], label: "O" },
+  extractor: { shape: "circle", size: 0.45, color: COLOR_VALUE[Color.Gray], label: "X" },
+  container: { shape: "square", size: 0.3, color: COLOR_VALUE[Color.Gray] }
+};
+
+const ROAD_COLOR = COLOR_VALUE[Color.Gray];
+const RAMPART_COLOR = COLOR_VALUE[Color.Green];
+const EXPOSED_COLOR = COLOR_VALUE[Color.Red];
+
+/**
+ * 道路连线的方向，只向右和向下连，避免每条线画两次
+ */
+const ROAD_DIRECTIONS: [number, number][] = [
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1]
+];
+
+/**
+ * 暴露区域的缓存，按房间名索引，规划变化后重新计算
+ */
+const exposedCache: { [roomName: string]: { plan: RoomPlan; exposed: number[][] } } = {};
+
+/**
+ * 获取 rampart 外侧的暴露区域
+ *
+ * @param roomName 房间名称
+ * @param plan 房间规划
+ */
+const getExposedArray = function (roomName: string, plan: RoomPlan): number[][] {
+  const cached = exposedCache[roomName];
+  if (cached && cached.plan === plan) return cached.exposed;
+
+  const ramparts = plan.rampart.map(([x, y]) => ({ x, y }));
+  const exposed = getExposedArrayPure(new Room.Terrain(roomName), ramparts);
+  exposedCache[roomName] = { plan, exposed };
+  return exposed;
+};
+
+/**
+ * 绘制一个建筑
+ *
+ * @param visual 房间的 RoomVisual
+ * @param glyph 建筑的图形
+ * @param x x 坐标
+ * @param y y 坐标
+ */
+const drawGlyph = function (visual: RoomVisual, glyph: Glyph, x: number, y: number): void {
+  const style = { fill: glyph.color, opacity: 0.5, stroke: glyph.color, strokeWidth: 0.05 };
+  const { size } = glyph;
+
+  if (glyph.shape === "circle") visual.circle(x, y, { ...style, radius: size });
+  else if (glyph.shape === "square") visual.rect(x - size, y - size, size * 2, size * 2, style);
+  else {
+    visual.poly(
+      [
+        [x, y - size],
+        [x + size, y],
+        [x, y + size],
+        [x - size, y],
+        [x, y - size]
+      ],
+      style
+    );
+  }
+
+  if (glyph.label) visual.text(glyph.label, x, y + 0.15, { color: "#000000", font: 0.4, opacity: 0.8 });
+};
+
+/**
+ * 把道路画成相连的线，孤立的道路画成一个点
+ *
+ * @param visual 房间的 RoomVisual
+ * @param roads 道路位置
+ */
+const drawRoads = function (visual: RoomVisual, roads: [number, number][]): void {
+  const roadSet = new Set(roads.map(([x, y]) => x * 50 + y));
+  const style = { color: ROAD_COLOR, width: 0.15, opacity: 0.6 };
+
+  for (const [x, y] of roads) {
+    let connected = false;
+    for (const [dx, dy] of ROAD_DIRECTIONS) {
+      if (!roadSet.has((x + dx) * 50 + y + dy)) continue;
+      visual.line(x, y, x + dx, y + dy, style);
+      connected = true;
+    }
+    // 只和左边或者上边的道路相连时，线已经由对方画过了
+    if (!connected) visual.circle(x, y, { radius: 0.1, fill: ROAD_COLOR, opacity: 0.6 });
+  }
+};
+
+/**
+ * 绘制暴露区域，同一列中连续的格子合并成一个矩形
+ *
+ * @param visual 房间的 RoomVisual
+ * @param exposed getExposedArrayPure 返回的数组
+ */
+const drawExposed = function (visual: RoomVisual, exposed: number[][]): void {
+  const style = { fill: EXPOSED_COLOR, opacity: 0.15 };
+
+  for (let x = 0; x < 50; x++) {
+    let start = -1;
+    for (let y = 0; y <= 50; y++) {
+      const isExposed = y < 50 && exposed[x][y] === EXPOSED;
+      if (isExposed && start === -1) start = y;
+      else if (!isExposed && start !== -1) {
+        visual.rect(x - 0.5, start - 0.5, 1, y - start, style);
+        start = -1;
+      }
+    }
+  }
+};
+
+/**
+ * 绘制房间规划：暴露区域、rampart、道路和建筑
+ *
+ * @param roomName 房间名称
+ * @param plan 房间规划
+ */
+export const drawLayoutVisual = function (roomName: string, plan: RoomPlan): void {
+  const visual = new RoomVisual(roomName);
+
+  drawExposed(visual, getExposedArray(roomName, plan));
+  for (const [x, y] of plan.rampart) {
+    visual.rect(x - 0.5, y - 0.5, 1, 1, { fill: RAMPART_COLOR, opacity: 0.3 });
+  }
+  drawRoads(visual, plan.layout.road);
+
+  for (const type in GLYPHS) {
+    const glyph = GLYPHS[type as keyof typeof GLYPHS];
+    for (const [x, y] of plan.layout[type as keyof typeof GLYPHS]) drawGlyph(visual, glyph, x, y);
+  }
+};
+
+/**
+ * 绘制所有开启了预览的房间
+ * 需要每 tick 执行一次
+ */
+export const runLayoutVisual = function (): void {
+  for (const roomName in Memory.rooms) {
+    if (!Memory.rooms[roomName].showLayout) continue;
+
+    const plan = getRoomPlan(roomName);
+    if (plan) drawLayoutVisual(roomName, plan);
+    else new RoomVisual(roomName).text("等待布局规划（需要房间视野）", 25, 25, { color: EXPOSED_COLOR });
+  }
+};
+
+/**
+ * 挂载布局预览的控制台命令
+ * 需要在全局重置时执行一次
+ */
+export const mountLayoutVisual = function (): void {
+  global.showLayout = function (roomName: string): string {
+    if (!Memory.rooms) Memory.rooms = {};
+    if (!Memory.rooms[roomName]) Memory.rooms[roomName] = {} as RoomMemory;
+    Memory.rooms[roomName].showLayout = true;
+
+    if (getRoomPlan(roomName)) return `[layoutVisual] 已开启房间 ${roomName} 的布局预览`;
+    return `[layoutVisual] 已开启房间 ${roomName} 的布局预览，房间还没有规划，有视野时会开始规划`;
+  };
+
+  global.hideLayout = function (roomName: string): string {
+    const memory = Memory.rooms?.[roomName];
+    if (memory) delete memory.showLayout;
+    return `[layoutVisual] 已关闭房间 ${roomName} 的布局预览`;
+  };
+};
@@ -0,0 +1,230 @@
+/**
+ * link 网络
+ *
+ * 按照布局规划保存在房间内存中的位置给 link 分类：
+ * - source link：能量源旁边，由 harvester 填充
+ * - controller link：控制器旁边，供升级使用
+ * - hub link：storage 旁边，由 manager 存进 storage
+ * 每 tick 根据填充程度和冷却把 source link 的能量送往 controller link 和 hub link，
+ * controller link 缺能量时 manager 从 storage 把 hub link 装满，由 hub link 补给它（见 getHubLinkDemand）
+ */
+
+import { deserialize } from "@/Room/autoPlanner";
+import { TargetMemory } from "@/Room/types";
+
+/**
+ * source link 至少有这么多能量才发送，避免频繁发送小额能量
+ */
+const SEND_MIN_ENERGY = 400;
+
+/**
+ * controller link 的能量低于该值时需要补充
+ */
+const CONTROLLER_REFILL_ENERGY = 400;
+
+/**
+ * hub link 离 storage 的最远距离
+ */
+const HUB_RANGE = 2;
+
+/**
+ * 每隔多少 tick 重新给 link 分类
+ */
+const CLASSIFY_INTERVAL = 100;
+
+/**
+ * link 的用途
+ */
+export enum LinkType {
+  Source = "source",
+  Controller = "controller",
+  Hub = "hub"
+}
+
+/**
+ * 规划 link 发送时需要的状态
+ */
+export interface LinkState {
+  id: string;
+  type: LinkType;
+  energy: number;
+  cooldown: number;
+}
+
+/**
+ * 一次 link 发送
+ */
+export interface LinkTransfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+/**
+ * 房间内 link 的分类缓存，只保存在堆上
+ */
+const linkCache: {
+  [roomName: string]: { time: number; links: { [id: string]: LinkType } };
+} = {};
+
+/**
+ * 规划本 tick 的 link 发送（纯函数版本）
+ * source link 优先补给缺能量的 controller link，其次送往 hub link
+ * 没有 source link 能补给 controller link 时，由 hub link 补给
+ *
+ * @param links 房间内所有已分类的 link
+ */
+export function planLinkTransfersPure(links: LinkState[]): LinkTransfer[] {
+  const transfers: LinkTransfer[] = [];
+  // 加上本 tick 已经安排送入的能量，避免多个 link 同时送往同一个 link 导致溢出
+  const incoming: { [id: string]: number } = {};
+  const getEnergy = (link: LinkState) => link.energy + (incoming[link.id] || 0);
+  const send = (from: LinkState, to: LinkState, amount: number) => {
+    transfers.push({ from: from.id, to: to.id, amount });
+    incoming[to.id] = (incoming[to.id] || 0) + amount;
+  };
+
+  const controller = links.find(link => link.type === LinkType.Controller);
+  const hub = links.find(link => link.type === LinkType.Hub);
+
+  for (const source of links) {
+    if (source.type !== LinkType.Source || source.cooldown > 0 || source.energy < SEND_MIN_ENERGY) continue;
+
+    const target =
+      controller && getEnergy(controller) < CONTROLLER_REFILL_ENERGY
+        ? controller
+        : hub && getEnergy(hub) < LINK_CAPACITY
+        ? hub
+        : undefined;
+    if (!target) continue;
+
+    const amount = Math.min(source.energy, LINK_CAPACITY - getEnergy(target));
+    send(source, target, amount);
+  }
+
+  if (controller && hub && hub.cooldown === 0 && hub.energy > 0 && getEnergy(controller) < CONTROLLER_REFILL_ENERGY) {
+    send(hub, controller, Math.min(hub.energy, LINK_CAPACITY - getEnergy(controller)));
+  }
+  return transfers;
+}
+
+/**
+ * 获取布局规划保存的能量源或控制器的内存
+ *
+ * @param room 房间
+ * @param targetId 能量源、矿物或者控制器的 id
+ */
+export const getTargetMemory = function (room: Room, targetId: string): TargetMemory | undefined {
+  return room.memory.targets?.[targetId];
+};
+
+/**
+ * 获取能量源或者控制器旁边规划的 link
+ *
+ * @param room 房间
+ * @param targetId 能量源或者控制器的 id
+ */
+export const getTargetLink = function (room: Room, targetId: string): StructureLink | undefined {
+  const linkPos = getTargetMemory(room, targetId)?.linkPos;
+  if (!linkPos) return undefined;
+
+  const { x, y } = deserialize(linkPos);
+  return room
+    .lookForAt(LOOK_STRUCTURES, x, y)
+    .find((s): s is StructureLink => s.structureType === STRUCTURE_LINK && s.my);
+};
+
+/**
+ * 给房间内的 link 分类，不在规划位置上且不在 storage 旁边的 link 不参与发送
+ *
+ * @param room 自己的房间
+ */
+const classifyLinks = function (room: Room): { [id: string]: LinkType } {
+  const links: { [id: string]: LinkType } = {};
+  for (const source of room.find(FIND_SOURCES)) {
+    const link = getTargetLink(room, source.id);
+    if (link) links[link.id] = LinkType.Source;
+  }
+
+  const { controller, storage } = room;
+  const controllerLink = controller && getTargetLink(room, controller.id);
+  if (controllerLink) links[controllerLink.id] = LinkType.Controller;
+
+  const hubLink = storage?.pos.findInRange<StructureLink>(FIND_MY_STRUCTURES, HUB_RANGE, {
+    filter: s => s.structureType === STRUCTURE_LINK && !links[s.id]
+  })[0];
+  if (hubLink) links[hubLink.id] = LinkType.Hub;
+
+  return links;
+};
+
+/**
+ * 获取房间内已分类的 link，定期或者有 link 消失时重新分类
+ *
+ * @param room 自己的房间
+ */
+const getLinks = function (room: Room): { link: StructureLink; type: LinkType }[] {
+  let cache = linkCache[room.name];
+  if (!cache || Game.time - cache.time >= CLASSIFY_INTERVAL) {
+    cache = { time: Game.time, links: classifyLinks(room) };
+    linkCache[room.name] = cache;
+  }
+
+  const result: { link: StructureLink; type: LinkType }[] = [];
+  for (const id in cache.links) {
+    const link = Game.getObjectById(id as Id<StructureLink>);
+    if (!link) {
+      // link 被摧毁了，下个 tick 重新分类
+      delete linkCache[room.name];
+      continue;
+    }
+    result.push({ link, type: cache.links[id] });
+  }
+  return result;
+};
+
+/**
+ * 获取房间的 hub link，manager 会把里面的能量存进 storage
+ *
+ * @param room 自己的房间
+ */
+export const getHubLink = function (room: Room): StructureLink | undefined {
+  return getLinks(room).find(({ type }) => type === LinkType.Hub)?.link;
+};
+
+/**
+ * 获取 hub link 需要从 storage 补充的能量
+ * controller link 缺能量时 hub link 需要保持装满，准备补给 controller link
+ *
+ * @param room 自己的房间
+ * @returns 不需要补充时返回 0
+ */
+export const getHubLinkDemand = function (room: Room): number {
+  const hubLink = getHubLink(room);
+  const controllerLink = room.controller && getTargetLink(room, room.controller.id);
+  if (!hubLink || !controllerLink || !room.storage) return 0;
+  if (controllerLink.store[RESOURCE_ENERGY] >= CONTROLLER_REFILL_ENERGY) return 0;
+  return hubLink.store.getFreeCapacity(RESOURCE_ENERGY);
+};
+
+/**
+ * 运行房间的 link 网络
+ *
+ * @param room 自己的房间
+ */
+export const runLinks = function (room: Room): void {
+  const links = getLinks(room);
+  if (links.length < 2) return;
+
+  const states = links.map(({ link, type }) => ({
+    id: link.id,
+    type,
+    energy: link.store[RESOURCE_ENERGY],
+    cooldown: link.cooldown
+  }));
+  for (const { from, to, amount } of planLinkTransfersPure(states)) {
+    const link = Game.getObjectById(from as Id<StructureLink>);
+    const target = Game.getObjectById(to as Id<StructureLink>);
+    if (link && target && amount > 0) link.transferEnergy(target, amount);
+  }
+};
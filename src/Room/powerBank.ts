@@ -0,0 +1,292 @@
+/**
+ * power bank 采集
+ *
+ * 从侦查情报中挑选附近值得采集的 power bank，派出 pbAttacker 和 pbHealer 小组攻击，
+ * 根据剩余血量估算 power bank 被打掉的时间，让 pbCarrier 刚好在被打掉时到达
+ * 每个房间同时只进行一个行动
+ */
+
+import { buildBodyPure } from "@/Creep/body";
+import { CreepRole } from "@/Creep/types";
+import { deserialize } from "@/Room/autoPlanner";
+import { addSpawnTask } from "@/Room/spawnQueue";
+import { PowerBankIntel, PowerBankOperation } from "@/Room/types";
+
+/**
+ * 从几级开始采集 power bank
+ */
+const POWER_MIN_LEVEL = 7;
+
+/**
+ * storage 中的能量低于该值时不开始新的行动
+ */
+const POWER_MIN_ENERGY = 100000;
+
+/**
+ * power bank 离自己房间最远的直线距离，和 observer 的侦查范围一致
+ */
+const POWER_MAX_DISTANCE = 3;
+
+/**
+ * power 少于该值的 power bank 不值得采集
+ */
+export const POWER_MIN_AMOUNT = 1000;
+
+/**
+ * 同时攻击的小组数量上限
+ */
+const MAX_PAIRS = 3;
+
+/**
+ * 估算路程时每个房间需要走多少 tick
+ */
+const TICKS_PER_ROOM = 50;
+
+/**
+ * carrier 提前到达的余量
+ */
+const CARRIER_MARGIN = 50;
+
+/**
+ * 每隔多少 tick 检查一次行动
+ */
+const CHECK_INTERVAL = 5;
+
+/**
+ * power bank 的采集计划
+ */
+export interface PowerBankPlan {
+  pairs: number; // attacker 和 healer 小组数量
+  carriers: number; // carrier 数量
+  attackTicks: number; // 打掉 power bank 需要的 tick
+}
+
+/**
+ * 制定 power bank 的采集计划（纯函数版本）
+ * 需要一批 creep 在寿命内打掉，并且在 power bank 消失之前打掉
+ *
+ * @param bank power bank 的情报，ticksToDecay 为剩余的 tick
+ * @param travelTicks 孵化加上走到 power bank 需要的 tick
+ * @param attackPerPair 每个小组每 tick 的伤害
+ * @param healPerPair 每个小组每 tick 的治疗量，需要抵消 power bank 的反伤
+ * @param carryPerCarrier 每个 carrier 能带的 power
+ * @returns 不值得采集时返回 undefined
+ */
+export function planPowerBankPure(
+  bank: Pick<PowerBankIntel, "power" | "hits" | "freeSpots"> & { ticksToDecay: number },
+  travelTicks: number,
+  attackPerPair: number,
+  healPerPair: number,
+  carryPerCarrier: number
+): PowerBankPlan | undefined {
+  if (bank.power < POWER_MIN_AMOUNT || attackPerPair <= 0 || carryPerCarrier <= 0) return undefined;
+  if (healPerPair < attackPerPair * POWER_BANK_HIT_BACK) return undefined;
+
+  const available = Math.min(bank.ticksToDecay, CREEP_LIFE_TIME) - travelTicks;
+  for (let pairs = 1; pairs <= Math.min(bank.freeSpots, MAX_PAIRS); pairs++) {
+    const attackTicks = Math.ceil(bank.hits / (pairs * attackPerPair));
+    if (attackTicks <= available) {
+      return { pairs, carriers: Math.ceil(bank.power / carryPerCarrier), attackTicks };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 是否应该派出 carrier（纯函数版本）：power bank 被打掉之前刚好走到
+ *
+ * @param hits power bank 剩余的血量
+ * @param damagePerTick 所有小组每 tick 的伤害
+ * @param carrierTicks carrier 孵化加上走到 power bank 需要的 tick
+ */
+export function shouldSendCarriersPure(hits: number, damagePerTick: number, carrierTicks: number): boolean {
+  return hits / damagePerTick <= carrierTicks + CARRIER_MARGIN;
+}
+
+/**
+ * 统计身体中某种部件的数量
+ */
+const countPart = function (body: BodyPartConstant[], part: BodyPartConstant): number {
+  return body.filter(p => p === part).length;
+};
+
+/**
+ * 按照房间的能量上限计算各角色的能力
+ *
+ * @param room 负责孵化的房间
+ */
+const getCapacity = function (room: Room) {
+  const energy = room.energyCapacityAvailable;
+  const attacker = buildBodyPure(CreepRole.PbAttacker, energy);
+  const healer = buildBodyPure(CreepRole.PbHealer, energy);
+  const carrier = buildBodyPure(CreepRole.PbCarrier, energy);
+  return {
+    attack: countPart(attacker, ATTACK) * ATTACK_POWER,
+    heal: countPart(healer, HEAL) * HEAL_POWER,
+    carry: countPart(carrier, CARRY) * CARRY_CAPACITY,
+    spawnTicks: Math.max(attacker.length, healer.length) * CREEP_SPAWN_TIME,
+    carrierSpawnTicks: carrier.length * CREEP_SPAWN_TIME
+  };
+};
+
+/**
+ * 获取 creep 所属的行动
+ *
+ * @param creep power bank 行动中的 creep
+ */
+export const getCreepOperation = function (creep: Creep): PowerBankOperation | undefined {
+  const operation = Memory.rooms?.[creep.memory.room]?.powerBank;
+  return operation && operation.roomName === creep.memory.targetRoom ? operation : undefined;
+};
+
+/**
+ * 获取 power bank 的位置
+ *
+ * @param operation 行动
+ */
+export const getBankPos = function (operation: PowerBankOperation): RoomPosition {
+  const { x, y } = deserialize(operation.pos);
+  return new RoomPosition(x, y, operation.roomName);
+};
+
+/**
+ * 获取同一小组的另一个 creep
+ *
+ * @param creep attacker 或 healer
+ * @param role 要找的角色
+ */
+export const getPartner = function (creep: Creep, role: CreepRole): Creep | undefined {
+  for (const name in Game.creeps) {
+    const other = Game.creeps[name];
+    const { memory } = other;
+    if (memory.role !== role || memory.room !== creep.memory.room) continue;
+    if (memory.targetRoom === creep.memory.targetRoom && memory.pair === creep.memory.pair) return other;
+  }
+  return undefined;
+};
+
+/**
+ * 其他房间已经在采集的 power bank
+ */
+const getTakenBanks = function (): Set<string> {
+  const taken = new Set<string>();
+  for (const roomName in Memory.rooms) {
+    const operation = Memory.rooms[roomName].powerBank;
+    if (operation) taken.add(operation.id);
+  }
+  return taken;
+};
+
+/**
+ * 挑选最值得采集的 power bank 并派出攻击小组
+ *
+ * @param room 负责的房间
+ */
+const startOperation = function (room: Room): void {
+  if ((room.storage?.store[RESOURCE_ENERGY] ?? 0) < POWER_MIN_ENERGY) return;
+
+  const capacity = getCapacity(room);
+  const taken = getTakenBanks();
+  let best: { operation: PowerBankOperation; plan: PowerBankPlan } | undefined;
+  for (const roomName in Memory.intel) {
+    const bank = Memory.intel[roomName].powerBank;
+    if (!bank || taken.has(bank.id)) continue;
+
+    const distance = Game.map.getRoomLinearDistance(room.name, roomName);
+    if (distance > POWER_MAX_DISTANCE) continue;
+
+    const travelTicks = capacity.spawnTicks + distance * TICKS_PER_ROOM;
+    // 侦查之后已经被别人打过的话血量会更少，按侦查时的血量估算比较保守
+    const ticksToDecay = bank.decayAt - Game.time;
+    const plan = planPowerBankPure(
+      { ...bank, ticksToDecay },
+      travelTicks,
+      capacity.attack,
+      capacity.heal,
+      capacity.carry
+    );
+    if (!plan || (best && best.operation.power >= bank.power)) continue;
+
+    const { id, pos, power, decayAt } = bank;
+    best = { operation: { roomName, id, pos, power, decayAt, pairs: plan.pairs, carriers: plan.carriers }, plan };
+  }
+  if (!best) return;
+
+  const { operation, plan } = best;
+  for (let pair = 0; pair < operation.pairs; pair++) {
+    // 同一小组的两个任务优先级相同，会被连续孵化
+    addSpawnTask(room, CreepRole.PbAttacker, { targetRoom: operation.roomName, pair });
+    addSpawnTask(room, CreepRole.PbHealer, { targetRoom: operation.roomName, pair });
+  }
+  room.memory.powerBank = operation;
+  console.log(
+    `[powerBank] 房间 ${room.name} 开始采集 ${operation.roomName} 的 power bank：` +
+      `power ${operation.power}，${operation.pairs} 个小组，预计 ${plan.attackTicks} tick 打掉`
+  );
+};
+
+/**
+ * 派出 carrier
+ *
+ * @param room 负责的房间
+ * @param operation 行动
+ */
+const sendCarriers = function (room: Room, operation: PowerBankOperation): void {
+  for (let i = 0; i < operation.carriers; i++) {
+    addSpawnTask(room, CreepRole.PbCarrier, { targetRoom: operation.roomName });
+  }
+  operation.carriersSent = true;
+  console.log(`[powerBank] 房间 ${room.name} 派出 ${operation.carriers} 个 carrier 前往 ${operation.roomName}`);
+};
+
+/**
+ * 更新进行中的行动：在合适的时间派出 carrier，power 运完或者 power bank 消失后结束行动
+ *
+ * @param room 负责的房间
+ * @param operation 行动
+ */
+const updateOperation = function (room: Room, operation: PowerBankOperation): void {
+  const bankRoom = Game.rooms[operation.roomName];
+  const bank = Game.getObjectById(operation.id as Id<StructurePowerBank>);
+
+  if (bank && !operation.carriersSent) {
+    const capacity = getCapacity(room);
+    const distance = Game.map.getRoomLinearDistance(room.name, operation.roomName);
+    const carrierTicks = capacity.carrierSpawnTicks + distance * TICKS_PER_ROOM;
+    if (shouldSendCarriersPure(bank.hits, operation.pairs * capacity.attack, carrierTicks)) {
+      sendCarriers(room, operation);
+    }
+    return;
+  }
+  if (!bankRoom || bank) return;
+
+  // power bank 已经不在了，地上和废墟里也没有 power 时结束行动
+  const hasPower =
+    bankRoom.find(FIND_DROPPED_RESOURCES, { filter: r => r.resourceType === RESOURCE_POWER }).length > 0 ||
+    bankRoom.find(FIND_RUINS, { filter: r => r.store[RESOURCE_POWER] > 0 }).length > 0;
+  if (hasPower && !operation.carriersSent) sendCarriers(room, operation);
+  if (hasPower) return;
+
+  const carrying = Object.values(Game.creeps).some(
+    creep => creep.memory.role === CreepRole.PbCarrier && creep.memory.room === room.name && creep.store[RESOURCE_POWER]
+  );
+  if (carrying) return;
+
+  console.log(`[powerBank] 房间 ${room.name} 在 ${operation.roomName} 的行动结束`);
+  delete room.memory.powerBank;
+};
+
+/**
+ * 运行房间的 power bank 采集
+ *
+ * @param room 自己的房间
+ */
+export const runPowerBank = function (room: Room): void {
+  if ((room.controller?.level ?? 0) < POWER_MIN_LEVEL || Game.time % CHECK_INTERVAL !== 0) return;
+
+  const operation = room.memory.powerBank;
+  if (!operation) startOperation(room);
+  // 没有看到 power bank 被打掉就已经消失了（例如被别人抢走）
+  else if (Game.time > operation.decayAt && !Game.rooms[operation.roomName]) delete room.memory.powerBank;
+  else updateOperation(room, operation);
+};
@@ -0,0 +1,69 @@
+import { CreepRole } from "@/Creep/types";
+
+type RoleCount = { [role in CreepRole]: number };
+
+/**
+ * 每个房间的角色数量统计
+ * 每 tick 只会遍历一次 Game.creeps，之后的查询都走缓存
+ */
+let roleCache: { time: number; rooms: { [roomName: string]: RoleCount } } = { time: -1, rooms: {} };
+
+/**
+ * 创建一个所有角色数量都为 0 的统计对象
+ */
+const createRoleCount = function (): RoleCount {
+  const count = {} as RoleCount;
+  for (const role of Object.values(CreepRole)) count[role] = 0;
+  return count;
+};
+
+/**
+ * 获取指定房间本 tick 的角色统计
+ *
+ * @param roomName 房间名称
+ */
+const getRoleCount = function (roomName: string): RoleCount {
+  if (roleCache.time !== Game.time) {
+    const rooms: { [roomName: string]: RoleCount } = {};
+    for (const name in Game.creeps) {
+      const creep = Game.creeps[name];
+      const home = creep.memory.room || creep.room.name;
+      if (!rooms[home]) rooms[home] = createRoleCount();
+      if (creep.memory.role in rooms[home]) rooms[home][creep.memory.role]++;
+    }
+    roleCache = { time: Game.time, rooms };
+  }
+
+  if (!roleCache.rooms[roomName]) roleCache.rooms[roomName] = createRoleCount();
+  return roleCache.rooms[roomName];
+};
+
+/**
+ * 挂载 Room 原型拓展
+ * 需要在全局重置时执行一次
+ */
+export const mountRoom = function (): void {
+  Room.prototype.myOwned = function (): boolean {
+    return !!this.controller?.my;
+  };
+
+  Room.prototype.countRole = function (role?: CreepRole): number {
+    const count = getRoleCount(this.name);
+    if (role) return count[role];
+    return Object.values(count).reduce((total, num) => total + num, 0);
+  };
+
+  Object.defineProperty(Room.prototype, "roles", {
+    get(this: Room) {
+      return getRoleCount(this.name);
+    },
+    configurable: true
+  });
+
+  // 本 tick 中该房间的 cpu 消耗，由 roomRunner 写入
+  Object.defineProperty(Room.prototype, "cpuUsed", {
+    value: 0,
+    writable: true,
+    configurable: true
+  });
+};
@@ -0,0 +1,67 @@
+/**
+ * 从几级开始在最小割的位置上建造 rampart
+ */
+export const RAMPART_BUILD_LEVEL = 4;
+
+/**
+ * 新建成的 rampart 只有 1 点血，低于该血量时优先于建造进行修理，避免衰减后被摧毁
+ */
+export const RAMPART_SAFE_HITS = 10000;
+
+/**
+ * 各等级 rampart 的基础目标血量
+ */
+const RAMPART_BASE_HITS: { [level: number]: number } = {
+  1: 0,
+  2: 0,
+  3: 0,
+  4: 100000,
+  5: 300000,
+  6: 1000000,
+  7: 3000000,
+  8: 10000000
+};
+
+/**
+ * storage 中每有这么多能量，目标血量就增加一倍基础血量
+ */
+const ENERGY_PER_BONUS = 100000;
+
+/**
+ * 计算 rampart 的目标血量
+ * 随控制器等级和 storage 中的能量增加，但不会超过当前等级的血量上限
+ *
+ * @param level 控制器等级
+ * @param storageEnergy storage 中的能量
+ */
+export function getRampartTargetHitsPure(level: number, storageEnergy: number): number {
+  const base = RAMPART_BASE_HITS[level] || 0;
+  const bonus = Math.floor(storageEnergy / ENERGY_PER_BONUS);
+  return Math.min(RAMPART_HITS_MAX[level] || 0, base * (1 + bonus));
+}
+
+/**
+ * 更新房间的 rampart 目标血量
+ *
+ * @param room 要更新的房间
+ */
+export const updateRampartHits = function (room: Room): void {
+  const level = room.controller?.level || 0;
+  const storageEnergy = room.storage?.store[RESOURCE_ENERGY] || 0;
+  room.memory.rampartHits = getRampartTargetHitsPure(level, storageEnergy);
+};
+
+/**
+ * 获取房间内血量最低且没有达到目标血量的 rampart
+ *
+ * @param room 要查找的房间
+ * @param targetHits 目标血量
+ */
+export const getWeakestRampart = function (room: Room, targetHits: number): StructureRampart | undefined {
+  let weakest: StructureRampart | undefined;
+  for (const structure of room.find(FIND_MY_STRUCTURES)) {
+    if (structure.structureType !== STRUCTURE_RAMPART || structure.hits >= targetHits) continue;
+    if (!weakest || structure.hits < weakest.hits) weakest = structure;
+  }
+  return weakest;
+};
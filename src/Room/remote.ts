@@ -0,0 +1,412 @@
+/**
+ * 外矿
+ *
+ * 每个自己的房间会在相邻的房间中挑选外矿，派出 remoteHarvester 在 container 上采集，
+ * remoteHelper 把能量运回来，等级足够时派出 reserver 预定控制器
+ * 外矿出现敌人或者 invader core 时撤离，并定期输出每个外矿的净收益
+ */
+
+import { buildBodyPure, getBodyCost } from "@/Creep/body";
+import { CreepRole } from "@/Creep/types";
+import { goToRoom, parkCreep } from "@/Creep/utils";
+import { deserialize, serialize } from "@/Room/autoPlanner";
+import { getIntel, getMyUsername } from "@/Room/intel";
+import { addSpawnTask } from "@/Room/spawnQueue";
+import { RemoteMemory, RemoteSourceMemory, RoomIntel } from "@/Room/types";
+
+/**
+ * 从几级开始开外矿
+ */
+const REMOTE_MIN_LEVEL = 3;
+
+/**
+ * 从几级开始预定外矿的控制器，需要足够的能量孵化 CLAIM
+ */
+const RESERVE_MIN_LEVEL = 4;
+
+/**
+ * 每个房间最多开几个外矿
+ */
+const MAX_REMOTES = 2;
+
+/**
+ * 每隔多少 tick 重新挑选外矿
+ */
+const UPDATE_INTERVAL = 1000;
+
+/**
+ * 每隔多少 tick 检查一次外矿需要的 creep
+ */
+const CHECK_INTERVAL = 10;
+
+/**
+ * 情报超过多少 tick 没有更新就派 signer 重新侦查
+ */
+const INTEL_MAX_AGE = 5000;
+
+/**
+ * 预定剩余的 tick 少于该值时孵化 reserver
+ */
+const RESERVE_MIN_TICKS = 1000;
+
+/**
+ * 每隔多少 tick 统计一次净收益
+ */
+const REPORT_INTERVAL = 1500;
+
+/**
+ * container 低于该比例的血量时由 remoteHarvester 修理
+ */
+export const CONTAINER_REPAIR_RATIO = 0.5;
+
+/**
+ * 判断外矿是否可以使用（纯函数版本）：有控制器和能量源，没有被别人占领或者预定，也没有 invader core
+ *
+ * @param intel 外矿的情报
+ * @param username 自己的用户名
+ */
+export function isRemoteUsablePure(intel: RoomIntel, username: string | undefined): boolean {
+  const { controller } = intel;
+  if (!controller || controller.owner || intel.sources.length === 0) return false;
+  if (controller.reservation && controller.reservation !== username) return false;
+  return !intel.hostileStructures[STRUCTURE_INVADER_CORE];
+}
+
+/**
+ * 计算外矿能量源每 tick 的产量（纯函数版本），没有预定的能量源只有一半的容量
+ *
+ * @param reserved 外矿的控制器是否被自己预定
+ */
+export function getSourceEnergyPure(reserved: boolean): number {
+  return (reserved ? SOURCE_ENERGY_CAPACITY : SOURCE_ENERGY_NEUTRAL_CAPACITY) / ENERGY_REGEN_TIME;
+}
+
+/**
+ * 计算一个能量源需要的运输者（纯函数版本）
+ * 来回一趟的时间内能量源产出的能量都需要运走，额外留一个 CARRY 的余量
+ *
+ * @param pathLength 单程的路径长度
+ * @param maxCarry 一个运输者最多能有多少 CARRY
+ * @param energyPerTick 能量源每 tick 的产量，见 getSourceEnergyPure
+ * @returns 运输者的数量和每个运输者的 CARRY 数量
+ */
+export function getHaulerPlanPure(
+  pathLength: number,
+  maxCarry: number,
+  energyPerTick: number
+): { count: number; carry: number } {
+  const totalCarry = Math.ceil((energyPerTick * pathLength * 2) / CARRY_CAPACITY) + 1;
+  if (maxCarry <= 0) return { count: 0, carry: 0 };
+
+  const count = Math.ceil(totalCarry / maxCarry);
+  return { count, carry: Math.ceil(totalCarry / count) };
+}
+
+/**
+ * 计算外矿每 tick 的净收益（纯函数版本）
+ * creep 的孵化成本按照寿命平摊到每 tick
+ *
+ * @param income 统计周期内运回的能量
+ * @param ticks 统计周期的长度
+ * @param bodies 为外矿工作的 creep 的身体
+ */
+export function getNetEnergyPure(income: number, ticks: number, bodies: BodyPartConstant[][]): number {
+  let upkeep = 0;
+  for (const body of bodies) {
+    const lifeTime = body.includes(CLAIM) ? CREEP_CLAIM_LIFE_TIME : CREEP_LIFE_TIME;
+    upkeep += getBodyCost(body) / lifeTime;
+  }
+  return income / Math.max(1, ticks) - upkeep;
+}
+
+/**
+ * 外矿是否可以派出 creep：没有处于撤离中，并且情报显示仍然可以使用
+ *
+ * @param remoteName 外矿房间名
+ * @param remote 外矿内存
+ */
+export const isRemoteActive = function (remoteName: string, remote: RemoteMemory): boolean {
+  if (remote.dangerUntil && Game.time < remote.dangerUntil) return false;
+  const intel = getIntel(remoteName);
+  return !!intel && isRemoteUsablePure(intel, getMyUsername());
+};
+
+/**
+ * 获取 creep 工作的外矿
+ *
+ * @param creep 外矿的 creep
+ * @returns 外矿已经被放弃时返回 undefined
+ */
+export const getCreepRemote = function (creep: Creep): RemoteMemory | undefined {
+  const { room, targetRoom } = creep.memory;
+  return targetRoom ? Memory.rooms?.[room]?.remotes?.[targetRoom] : undefined;
+};
+
+/**
+ * 获取 creep 绑定的外矿能量源
+ *
+ * @param creep 外矿的 creep
+ */
+export const getCreepRemoteSource = function (creep: Creep): RemoteSourceMemory | undefined {
+  const { sourceId } = creep.memory;
+  return sourceId ? getCreepRemote(creep)?.sources[sourceId] : undefined;
+};
+
+/**
+ * 获取 container 在外矿中的位置
+ *
+ * @param creep 外矿的 creep
+ */
+export const getContainerPos = function (creep: Creep): RoomPosition | undefined {
+  const source = getCreepRemoteSource(creep);
+  if (!source || !creep.memory.targetRoom) return undefined;
+
+  const { x, y } = deserialize(source.containerPos);
+  return new RoomPosition(x, y, creep.memory.targetRoom);
+};
+
+/**
+ * 外矿不能工作时让 creep 撤回所属的房间
+ *
+ * @param creep 外矿的 creep
+ * @returns 是否正在撤离
+ */
+export const retreatFromRemote = function (creep: Creep): boolean {
+  const remote = getCreepRemote(creep);
+  if (!remote || !creep.memory.targetRoom || isRemoteActive(creep.memory.targetRoom, remote)) return false;
+
+  if (goToRoom(creep, creep.memory.room)) parkCreep(creep);
+  return true;
+};
+
+/**
+ * 记录运回的能量
+ *
+ * @param creep 运回能量的 remoteHelper
+ * @param amount 能量数量
+ */
+export const recordRemoteIncome = function (creep: Creep, amount: number): void {
+  const remote = getCreepRemote(creep);
+  if (remote) remote.income += amount;
+};
+
+/**
+ * 统计房间内为外矿工作的 creep 和孵化队列中的任务
+ * 快要老死的 creep 不算在内，这样接班的 creep 会提前孵化
+ *
+ * @param room 外矿所属的房间
+ * @param role 角色
+ * @param targetRoom 外矿房间名
+ * @param sourceId 绑定的能量源
+ * @param travelTicks 从出生到开始工作需要的 tick
+ */
+const countAssigned = function (
+  room: Room,
+  role: CreepRole,
+  targetRoom: string,
+  sourceId?: string,
+  travelTicks = 0
+): number {
+  const matches = (memory?: Partial<CreepMemory>) => memory?.targetRoom === targetRoom && memory.sourceId === sourceId;
+
+  let count = 0;
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    if (creep.memory.room !== room.name || creep.memory.role !== role || !matches(creep.memory)) continue;
+    if (creep.ticksToLive !== undefined && creep.ticksToLive < travelTicks + creep.body.length * CREEP_SPAWN_TIME) {
+      continue;
+    }
+    count++;
+  }
+  for (const task of room.memory.spawnQueue || []) {
+    if (task.role === role && matches(task.memory)) count++;
+  }
+  return count;
+};
+
+/**
+ * 计算从房间中心到外矿能量源的路径，container 放在路径的终点
+ *
+ * @param anchor 房间中心（storage 或 spawn）
+ * @param remoteName 外矿房间名
+ * @param sourcePos 能量源的位置，格式为 "x,y"
+ */
+const getSourcePath = function (
+  anchor: RoomPosition,
+  remoteName: string,
+  sourcePos: string
+): RemoteSourceMemory | undefined {
+  const { x, y } = deserialize(sourcePos);
+  const result = PathFinder.search(anchor, { pos: new RoomPosition(x, y, remoteName), range: 1 }, { maxRooms: 3 });
+  const end = result.path[result.path.length - 1];
+  if (result.incomplete || !end || end.roomName !== remoteName) return undefined;
+  return { containerPos: serialize(end), pathLength: result.path.length };
+};
+
+/**
+ * 情报不存在或者过旧时派出 signer 侦查
+ *
+ * @param room 外矿所属的房间
+ * @param remoteName 外矿房间名
+ */
+const scoutRemote = function (room: Room, remoteName: string): void {
+  const intel = getIntel(remoteName);
+  if (Game.rooms[remoteName] || (intel && Game.time - intel.time < INTEL_MAX_AGE)) return;
+  if (countAssigned(room, CreepRole.Signer, remoteName) > 0) return;
+  addSpawnTask(room, CreepRole.Signer, { targetRoom: remoteName });
+};
+
+/**
+ * 在相邻的房间中重新挑选外矿，按照到每个能量源的平均距离排序
+ * 继续使用的外矿会保留统计数据
+ *
+ * @param room 自己的房间
+ */
+const updateRemotes = function (room: Room): void {
+  const anchor = room.storage?.pos ?? room.find(FIND_MY_SPAWNS)[0]?.pos;
+  if (!anchor) return;
+
+  const username = getMyUsername();
+  const candidates: { roomName: string; sources: { [id: string]: RemoteSourceMemory }; distance: number }[] = [];
+  for (const remoteName of Object.values(Game.map.describeExits(room.name) ?? {})) {
+    if (!remoteName) continue;
+    scoutRemote(room, remoteName);
+
+    const intel = getIntel(remoteName);
+    if (!intel || !isRemoteUsablePure(intel, username)) continue;
+
+    const sources: { [id: string]: RemoteSourceMemory } = {};
+    let distance = 0;
+    for (const source of intel.sources) {
+      const path = getSourcePath(anchor, remoteName, source.pos);
+      if (!path) continue;
+      sources[source.id] = path;
+      distance += path.pathLength;
+    }
+
+    const count = Object.keys(sources).length;
+    if (count > 0) candidates.push({ roomName: remoteName, sources, distance: distance / count });
+  }
+
+  candidates.sort((a, b) => a.distance - b.distance);
+  const previous = room.memory.remotes || {};
+  const remotes: { [roomName: string]: RemoteMemory } = {};
+  for (const { roomName, sources } of candidates.slice(0, MAX_REMOTES)) {
+    remotes[roomName] = previous[roomName]
+      ? { ...previous[roomName], sources }
+      : { sources, income: 0, since: Game.time };
+  }
+  room.memory.remotes = remotes;
+};
+
+/**
+ * 外矿中出现有攻击能力的敌人时撤离，直到敌人老死
+ *
+ * @param room 外矿所属的房间
+ * @param remoteName 外矿房间名
+ * @param remote 外矿内存
+ */
+const checkDanger = function (room: Room, remoteName: string, remote: RemoteMemory): void {
+  const remoteRoom = Game.rooms[remoteName];
+  if (!remoteRoom) return;
+
+  const hostiles = remoteRoom.find(FIND_HOSTILE_CREEPS, {
+    filter: creep => creep.body.some(part => part.type === ATTACK || part.type === RANGED_ATTACK)
+  });
+  if (hostiles.length === 0) return;
+
+  const dangerUntil = Game.time + Math.max(...hostiles.map(creep => creep.ticksToLive ?? CREEP_LIFE_TIME));
+  if (!remote.dangerUntil || remote.dangerUntil < Game.time) {
+    console.log(`[remote] 房间 ${room.name} 的外矿 ${remoteName} 出现敌人，撤离到 ${dangerUntil} tick`);
+  }
+  remote.dangerUntil = dangerUntil;
+};
+
+/**
+ * 为外矿添加缺少的 creep
+ *
+ * @param room 外矿所属的房间
+ * @param remoteName 外矿房间名
+ * @param remote 外矿内存
+ */
+const spawnRemoteCreeps = function (room: Room, remoteName: string, remote: RemoteMemory): void {
+  // 按照当前能量上限能孵化的最大运输者来分配
+  const maxBody = buildBodyPure(CreepRole.RemoteHelper, room.energyCapacityAvailable);
+  const maxCarry = maxBody.filter(part => part === CARRY).length;
+  // 到了预定的等级很快就会有 reserver，按照预定后的产量分配
+  const reserved =
+    (room.controller?.level ?? 0) >= RESERVE_MIN_LEVEL ||
+    getIntel(remoteName)?.controller?.reservation === getMyUsername();
+  const energyPerTick = getSourceEnergyPure(reserved);
+
+  for (const sourceId in remote.sources) {
+    const { pathLength } = remote.sources[sourceId];
+    const memory = { targetRoom: remoteName, sourceId: sourceId as Id<Source> };
+
+    if (countAssigned(room, CreepRole.RemoteHarvester, remoteName, sourceId, pathLength) === 0) {
+      addSpawnTask(room, CreepRole.RemoteHarvester, memory);
+    }
+
+    const plan = getHaulerPlanPure(pathLength, maxCarry, energyPerTick);
+    const haulers = countAssigned(room, CreepRole.RemoteHelper, remoteName, sourceId, pathLength);
+    for (let i = haulers; i < plan.count; i++) {
+      addSpawnTask(room, CreepRole.RemoteHelper, memory, { maxUnits: Math.ceil(plan.carry / 2) });
+    }
+  }
+
+  // 没有视野时不知道预定还剩多久，等 creep 到达后再判断
+  const controller = Game.rooms[remoteName]?.controller;
+  if (!controller || (room.controller?.level ?? 0) < RESERVE_MIN_LEVEL) return;
+  if ((controller.reservation?.ticksToEnd ?? 0) >= RESERVE_MIN_TICKS) return;
+  if (countAssigned(room, CreepRole.Reserver, remoteName) === 0) {
+    addSpawnTask(room, CreepRole.Reserver, { targetRoom: remoteName });
+  }
+};
+
+/**
+ * 输出外矿的净收益并开始新的统计周期
+ *
+ * @param room 外矿所属的房间
+ * @param remoteName 外矿房间名
+ * @param remote 外矿内存
+ */
+const reportRemote = function (room: Room, remoteName: string, remote: RemoteMemory): void {
+  const bodies: BodyPartConstant[][] = [];
+  for (const name in Game.creeps) {
+    const { memory, body } = Game.creeps[name];
+    if (memory.room === room.name && memory.targetRoom === remoteName) bodies.push(body.map(part => part.type));
+  }
+
+  const ticks = Game.time - remote.since;
+  remote.net = getNetEnergyPure(remote.income, ticks, bodies);
+  const income = remote.income / Math.max(1, ticks);
+  console.log(
+    `[remote] 房间 ${room.name} 的外矿 ${remoteName} 净收益 ${remote.net.toFixed(1)}/tick` +
+      `（运回 ${income.toFixed(1)}/tick，creep 成本 ${(income - remote.net).toFixed(1)}/tick）`
+  );
+
+  remote.income = 0;
+  remote.since = Game.time;
+};
+
+/**
+ * 运行房间的外矿
+ *
+ * @param room 自己的房间
+ */
+export const runRemote = function (room: Room): void {
+  if ((room.controller?.level ?? 0) < REMOTE_MIN_LEVEL) return;
+  if (!room.memory.remotes || Game.time % UPDATE_INTERVAL === 0) updateRemotes(room);
+
+  for (const remoteName in room.memory.remotes) {
+    const remote = room.memory.remotes[remoteName];
+    checkDanger(room, remoteName, remote);
+
+    if (Game.time % CHECK_INTERVAL === 0) {
+      if (isRemoteActive(remoteName, remote)) spawnRemoteCreeps(room, remoteName, remote);
+      // 因为 invader core 等原因停用的外矿需要重新侦查才知道能不能恢复
+      else scoutRemote(room, remoteName);
+    }
+    if (Game.time - remote.since >= REPORT_INTERVAL) reportRemote(room, remoteName, remote);
+  }
+};
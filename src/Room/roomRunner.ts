@@ -0,0 +1,39 @@
+import { previewLayout, runBuilder } from "@/Room/builder";
+import { runDefense } from "@/Room/defense";
+import { runFactory } from "@/Room/factory";
+import { recordIntel, runObserver } from "@/Room/intel";
+import { runLabs } from "@/Room/labs";
+import { runLinks } from "@/Room/links";
+import { runPowerBank } from "@/Room/powerBank";
+import { runRemote } from "@/Room/remote";
+import { runSpawn } from "@/Room/spawnQueue";
+import { runTower } from "@/Room/tower";
+
+/**
+ * 房间运行器
+ * 会对每个有视野的房间执行一次，并记录该房间消耗的 cpu
+ *
+ * @param room 要运行的房间
+ */
+export const roomRunner = function (room: Room): void {
+  const cpu = Game.cpu.getUsed();
+  recordIntel(room);
+
+  if (room.myOwned()) {
+    runDefense(room);
+    runBuilder(room);
+    runSpawn(room);
+    runTower(room);
+    runLinks(room);
+    runLabs(room);
+    runFactory(room);
+    runObserver(room);
+    runRemote(room);
+    runPowerBank(room);
+  } else if (Memory.rooms?.[room.name]?.showLayout) {
+    // 还没有占领的房间只规划布局，用于预览
+    previewLayout(room);
+  }
+
+  room.cpuUsed = Game.cpu.getUsed() - cpu;
+};
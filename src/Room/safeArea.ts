@@ -0,0 +1,36 @@
+import { getExposedMatrix } from "@/Room/autoPlanner";
+import { getRoomPlan } from "@/Room/layoutStore";
+
+/**
+ * 暴露区域成本矩阵的缓存
+ * CostMatrix 无法放进 Memory，全局重置后会根据规划中的 rampart 重新生成
+ */
+const matrixCache: { [roomName: string]: CostMatrix } = {};
+
+/**
+ * 设置房间的暴露区域成本矩阵，重新规划后调用
+ *
+ * @param roomName 房间名称
+ * @param matrix calculate 返回的成本矩阵
+ */
+export const setSafeMatrix = function (roomName: string, matrix: CostMatrix): void {
+  matrixCache[roomName] = matrix;
+};
+
+/**
+ * 获取房间的暴露区域成本矩阵，rampart 外侧的位置为 0xff
+ *
+ * @param room 房间
+ * @returns 成本矩阵，房间没有规划 rampart 时返回 undefined
+ */
+export const getSafeMatrix = function (room: Room): CostMatrix | undefined {
+  if (!matrixCache[room.name]) {
+    const plan = getRoomPlan(room.name);
+    if (!plan || plan.rampart.length === 0) return undefined;
+    matrixCache[room.name] = getExposedMatrix(
+      room.name,
+      plan.rampart.map(([x, y]) => ({ x, y }))
+    );
+  }
+  return matrixCache[room.name];
+};
@@ -0,0 +1,162 @@
+import { BodyOptions, buildBodyPure, getBodyCost } from "@/Creep/body";
+import { CreepRole } from "@/Creep/types";
+import { SpawnTask } from "@/Room/types";
+
+/**
+ * 每隔多少 tick 检查一次角色配额
+ */
+const CHECK_INTERVAL = 5;
+
+/**
+ * 提前多少 tick 孵化接班的 creep（在孵化时间的基础上）
+ */
+const REPLACE_TICKS = 50;
+
+/**
+ * 紧急模式下至少要有多少能量才孵化
+ */
+const BOOTSTRAP_MIN_ENERGY = 200;
+
+/**
+ * 角色的孵化优先级，越小越先孵化
+ */
+export const ROLE_PRIORITY: { [role in CreepRole]: number } = {
+  [CreepRole.Harvester]: 0,
+  [CreepRole.Manager]: 1,
+  [CreepRole.Defender]: 2,
+  [CreepRole.Worker]: 3,
+  [CreepRole.Miner]: 4,
+  [CreepRole.Claimer]: 5,
+  [CreepRole.Signer]: 6,
+  [CreepRole.RemoteHarvester]: 7,
+  [CreepRole.Reserver]: 8,
+  [CreepRole.RemoteHelper]: 8,
+  [CreepRole.PbAttacker]: 9,
+  [CreepRole.PbHealer]: 9,
+  [CreepRole.PbCarrier]: 10
+};
+
+/**
+ * 各角色的默认配额
+ * 不在这里的角色由其他模块通过 addSpawnTask 按需孵化
+ */
+const ROLE_QUOTA: { [role in CreepRole]?: (room: Room) => number } = {
+  [CreepRole.Harvester]: room => room.find(FIND_SOURCES).length,
+  [CreepRole.Manager]: room => {
+    if (room.storage) return (room.controller?.level || 0) >= 6 ? 2 : 1;
+    const hasContainer = room.find(FIND_STRUCTURES, { filter: s => s.structureType === STRUCTURE_CONTAINER }).length;
+    return hasContainer > 0 ? 1 : 0;
+  },
+  [CreepRole.Worker]: room => {
+    if (room.memory.sites > 0) return 3;
+    if (room.storage && room.storage.store[RESOURCE_ENERGY] > 100000) return 3;
+    return room.controller?.level === 8 ? 1 : 2;
+  },
+  [CreepRole.Miner]: room => {
+    const mineral = room.find(FIND_MINERALS)[0];
+    const hasExtractor = room.find(FIND_MY_STRUCTURES, { filter: s => s.structureType === STRUCTURE_EXTRACTOR });
+    return mineral && mineral.mineralAmount > 0 && hasExtractor.length > 0 && (room.terminal || room.storage) ? 1 : 0;
+  }
+};
+
+/**
+ * 添加孵化任务，供其他模块按需孵化
+ *
+ * @param room 负责孵化的房间
+ * @param role 要孵化的角色
+ * @param memory 孵化时额外写入的内存
+ * @param body 生成身体部件时的可选项
+ */
+export const addSpawnTask = function (
+  room: Room,
+  role: CreepRole,
+  memory?: Partial<CreepMemory>,
+  body?: BodyOptions
+): void {
+  if (!room.memory.spawnQueue) room.memory.spawnQueue = [];
+  room.memory.spawnQueue.push({ role, priority: ROLE_PRIORITY[role], memory, body });
+  room.memory.spawnQueue.sort((a, b) => a.priority - b.priority);
+};
+
+/**
+ * 统计房间内快要老死的 creep
+ * 这些 creep 不算在存活数量里，这样接班的 creep 会提前进入队列
+ */
+const countExpiring = function (room: Room): { [role in CreepRole]?: number } {
+  const expiring: { [role in CreepRole]?: number } = {};
+  for (const name in Game.creeps) {
+    const creep = Game.creeps[name];
+    if (creep.memory.room !== room.name || creep.ticksToLive === undefined) continue;
+    if (creep.ticksToLive > creep.body.length * CREEP_SPAWN_TIME + REPLACE_TICKS) continue;
+    expiring[creep.memory.role] = (expiring[creep.memory.role] || 0) + 1;
+  }
+  return expiring;
+};
+
+/**
+ * 根据角色配额更新孵化队列
+ *
+ * @param room 要检查的房间
+ */
+export const updateSpawnQueue = function (room: Room): void {
+  const queue: SpawnTask[] = room.memory.spawnQueue || [];
+  const expiring = countExpiring(room);
+
+  for (const role of Object.values(CreepRole)) {
+    const getQuota = ROLE_QUOTA[role];
+    const quota = room.memory.roleQuota?.[role] ?? (getQuota ? getQuota(room) : 0);
+    const alive = room.countRole(role) - (expiring[role] || 0);
+
+    // 只有配额产生的任务（没有额外内存）才会被增减，其他模块添加的任务保持不变
+    const isQuotaTask = (task: SpawnTask) => task.role === role && !task.memory;
+    let queued = queue.filter(isQuotaTask).length;
+    while (alive + queued < quota) {
+      queue.push({ role, priority: ROLE_PRIORITY[role] });
+      queued++;
+    }
+    while (alive + queued > quota && queued > 0) {
+      queue.splice(queue.findIndex(isQuotaTask), 1);
+      queued--;
+    }
+  }
+
+  queue.sort((a, b) => a.priority - b.priority);
+  room.memory.spawnQueue = queue;
+};
+
+/**
+ * 执行房间孵化
+ * 房间内没有 harvester 时进入紧急模式，用现有能量先孵化一个小的 harvester
+ *
+ * @param room 要孵化的房间
+ */
+export const runSpawn = function (room: Room): void {
+  const spawns = room.find(FIND_MY_SPAWNS, { filter: spawn => !spawn.spawning });
+  if (spawns.length === 0) return;
+
+  const bootstrap = room.countRole(CreepRole.Harvester) === 0;
+  if (bootstrap || Game.time % CHECK_INTERVAL === 0 || !room.memory.spawnQueue) updateSpawnQueue(room);
+
+  const queue = room.memory.spawnQueue || [];
+  for (const spawn of spawns) {
+    const task = queue[0];
+    if (!task) return;
+
+    let energy = room.energyCapacityAvailable;
+    if (bootstrap && task.role === CreepRole.Harvester) {
+      if (room.energyAvailable < BOOTSTRAP_MIN_ENERGY) return;
+      energy = room.energyAvailable;
+    }
+
+    const body = buildBodyPure(task.role, energy, task.body);
+    // 能量不够时等待，防止低优先级的任务插队
+    if (body.length === 0 || getBodyCost(body) > room.energyAvailable) return;
+
+    const name = `${task.role}_${room.name}_${Game.time}_${spawn.name}`;
+    const memory: CreepMemory = { ...task.memory, role: task.role, room: room.name };
+    // 带有强化计划的 creep 出生后会先去 lab 强化
+    if (task.body?.boost) memory.boost = task.body.boost;
+    if (spawn.spawnCreep(body, name, { memory }) !== OK) return;
+    queue.shift();
+  }
+};
@@ -0,0 +1,491 @@
+/**
+ * terminal 和市场
+ *
+ * 每隔 TERMINAL_INTERVAL 执行一次，每个 terminal 每次最多进行一笔交易：
+ * 1. 在自己的房间之间平衡能量和基础矿物，lab 缺少的原料也会从其他房间调过来
+ * 2. 其他房间也没有的 lab 原料从市场买入
+ * 3. 超过卖出阈值的资源卖给市场
+ * 市场交易的价格需要和最近的成交均价比较，偏离太多时不交易
+ * 只使用 terminal 中的资源，manager 会把能量储备和要转移、卖出的资源从 storage 搬进 terminal（见 getTerminalTasks）
+ * 所有的交易都会记录在 Memory.trade.history 中
+ * 在控制台执行 sellThreshold("H", 60000) 修改卖出阈值
+ */
+
+import { getReagentsPure, getStock, Stock } from "@/Room/labs";
+import { TransportTask } from "@/Room/transport";
+import { TradeLog, TradeMemory } from "@/Room/types";
+
+/**
+ * 每隔多少 tick 执行一次
+ */
+const TERMINAL_INTERVAL = 20;
+
+/**
+ * 交易记录的最大条数
+ */
+const MAX_HISTORY = 100;
+
+/**
+ * 参与平衡的基础矿物
+ */
+const BASE_MINERALS: ResourceConstant[] = [
+  RESOURCE_HYDROGEN,
+  RESOURCE_OXYGEN,
+  RESOURCE_UTRIUM,
+  RESOURCE_LEMERGIUM,
+  RESOURCE_KEANIUM,
+  RESOURCE_ZYNTHIUM,
+  RESOURCE_CATALYST
+];
+
+/**
+ * 每个房间至少保留的数量，低于该值时从其他房间调入
+ */
+const KEEP_AMOUNT: { [resource: string]: number } = { [RESOURCE_ENERGY]: 100000 };
+
+/**
+ * 没有在 KEEP_AMOUNT 中设置的资源每个房间保留的数量
+ */
+const DEFAULT_KEEP_AMOUNT = 5000;
+
+/**
+ * 默认的卖出阈值，房间中超过该值的部分会被卖出，没有设置的资源不卖
+ */
+const DEFAULT_SELL_THRESHOLDS: { [resource: string]: number } = {
+  [RESOURCE_ENERGY]: 600000,
+  [RESOURCE_HYDROGEN]: 60000,
+  [RESOURCE_OXYGEN]: 60000,
+  [RESOURCE_UTRIUM]: 60000,
+  [RESOURCE_LEMERGIUM]: 60000,
+  [RESOURCE_KEANIUM]: 60000,
+  [RESOURCE_ZYNTHIUM]: 60000,
+  [RESOURCE_CATALYST]: 60000
+};
+
+/**
+ * 一次转移的最小数量，避免频繁转移小额资源
+ */
+const MIN_SEND_AMOUNT = 1000;
+
+/**
+ * 一次转移、买入或者卖出的最大数量
+ */
+const MAX_TRADE_AMOUNT = 10000;
+
+/**
+ * 成交价偏离最近均价的最大比例
+ */
+const PRICE_TOLERANCE = 0.1;
+
+/**
+ * 计算成交均价时使用最近多少天的记录
+ */
+const HISTORY_DAYS = 7;
+
+/**
+ * terminal 中保留的能量，用于支付转移和交易的运费
+ */
+const TERMINAL_ENERGY = 20000;
+
+/**
+ * 往 terminal 中搬运资源的最小数量，避免频繁搬运小额资源
+ */
+const MIN_STOCK_AMOUNT = 1000;
+
+/**
+ * 一次转移
+ */
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+/**
+ * 规划一种资源的转移（纯函数版本）：多出最多的房间转给缺得最多的房间
+ *
+ * @param stocks 每个房间的数量和需求，按房间名索引
+ * @returns 不需要转移时返回 undefined
+ */
+export function planTransferPure(stocks: {
+  [roomName: string]: { amount: number; demand: number };
+}): Transfer | undefined {
+  let from: string | undefined;
+  let to: string | undefined;
+  let surplus = 0;
+  let deficit = 0;
+  for (const roomName in stocks) {
+    const { amount, demand } = stocks[roomName];
+    if (amount - demand > surplus) {
+      from = roomName;
+      surplus = amount - demand;
+    }
+    if (demand - amount > deficit) {
+      to = roomName;
+      deficit = demand - amount;
+    }
+  }
+
+  const amount = Math.min(surplus, deficit, MAX_TRADE_AMOUNT);
+  if (!from || !to || amount < MIN_SEND_AMOUNT) return undefined;
+  return { from, to, amount };
+}
+
+/**
+ * 获取把资源从 storage 搬进 terminal 的任务（纯函数版本）
+ * terminal 中保留 TERMINAL_ENERGY 的能量，再放入超过保留数量的部分，最多放够一次交易
+ *
+ * @param id terminal 的 id
+ * @param terminal terminal 中的资源
+ * @param storage storage 中的资源
+ * @param keep 需要搬运的资源在房间中保留的数量
+ */
+export function getTerminalTasksPure(id: string, terminal: Stock, storage: Stock, keep: Stock): TransportTask[] {
+  const tasks: TransportTask[] = [];
+  for (const resource in keep) {
+    const current = terminal[resource] ?? 0;
+    const total = current + (storage[resource] ?? 0);
+    const reserve = resource === RESOURCE_ENERGY ? TERMINAL_ENERGY : 0;
+    const surplus = Math.max(0, total - (keep[resource] ?? 0) - reserve);
+    const target = Math.min(total, reserve + Math.min(surplus, MAX_TRADE_AMOUNT));
+
+    const amount = Math.min(target - current, storage[resource] ?? 0);
+    if (amount >= MIN_STOCK_AMOUNT) {
+      tasks.push({ type: "fill", target: id, resource: resource as ResourceConstant, amount });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * 计算生产目标化合物还需要多少基础矿物（纯函数版本），已有的中间产物会被扣除
+ *
+ * @param compound 目标化合物
+ * @param amount 目标数量
+ * @param stock 当前的库存
+ * @param needs 累加结果，递归时使用
+ */
+export function getBaseMineralNeedsPure(
+  compound: ResourceConstant,
+  amount: number,
+  stock: Stock,
+  needs: Stock = {}
+): Stock {
+  const reagents = getReagentsPure(compound);
+  if (!reagents) {
+    needs[compound] = (needs[compound] ?? 0) + amount;
+    return needs;
+  }
+
+  const missing = amount - (stock[compound] ?? 0);
+  if (missing <= 0) return needs;
+  for (const reagent of reagents) getBaseMineralNeedsPure(reagent, missing, stock, needs);
+  return needs;
+}
+
+/**
+ * 计算最近几天按成交量加权的均价（纯函数版本）
+ *
+ * @param history 市场的历史记录
+ * @returns 没有成交记录时返回 undefined
+ */
+export function getAveragePricePure(history: Pick<PriceHistory, "avgPrice" | "volume">[]): number | undefined {
+  let total = 0;
+  let volume = 0;
+  for (const day of history.slice(-HISTORY_DAYS)) {
+    total += day.avgPrice * day.volume;
+    volume += day.volume;
+  }
+  return volume > 0 ? total / volume : undefined;
+}
+
+/**
+ * 价格是否合理（纯函数版本）：卖出时不低于均价太多，买入时不高于均价太多
+ *
+ * @param price 订单的单价
+ * @param average 最近的成交均价，没有时不交易
+ * @param type 自己是卖出还是买入
+ */
+export function isPriceSanePure(price: number, average: number | undefined, type: "sell" | "buy"): boolean {
+  if (average === undefined) return false;
+  return type === "sell" ? price >= average * (1 - PRICE_TOLERANCE) : price <= average * (1 + PRICE_TOLERANCE);
+}
+
+/**
+ * 添加交易记录（纯函数版本），超过上限时丢弃最旧的
+ *
+ * @param history 交易记录
+ * @param log 新的记录
+ * @param max 最大条数
+ */
+export function pushHistoryPure(history: TradeLog[], log: TradeLog, max = MAX_HISTORY): void {
+  history.push(log);
+  if (history.length > max) history.splice(0, history.length - max);
+}
+
+/**
+ * 获取交易相关的内存，没有时初始化
+ */
+const getTradeMemory = function (): TradeMemory {
+  if (!Memory.trade) Memory.trade = { history: [] };
+  return Memory.trade;
+};
+
+/**
+ * 记录一笔交易并输出日志
+ *
+ * @param log 交易记录
+ */
+const recordTrade = function (log: Omit<TradeLog, "time">): void {
+  pushHistoryPure(getTradeMemory().history, { ...log, time: Game.time });
+  const price = log.price === undefined ? "" : `，单价 ${log.price}`;
+  const target = log.target ? ` ${log.type === "send" ? "→" : "@"} ${log.target}` : "";
+  console.log(`[terminal] ${log.room} ${log.type} ${log.amount} ${log.resource}${target}${price}`);
+};
+
+/**
+ * 统计房间中 storage 和 terminal 的资源数量
+ *
+ * @param room 自己的房间
+ * @param resource 资源类型
+ */
+const getRoomAmount = function (room: Room, resource: ResourceConstant): number {
+  return (room.storage?.store[resource] ?? 0) + (room.terminal?.store[resource] ?? 0);
+};
+
+/**
+ * 计算房间对资源的需求：保留的数量，或者 lab 目标需要的基础矿物
+ *
+ * @param resource 资源类型
+ * @param labNeeds lab 目标需要的基础矿物
+ */
+const getDemand = function (resource: ResourceConstant, labNeeds: Stock): number {
+  return Math.max(KEEP_AMOUNT[resource] ?? DEFAULT_KEEP_AMOUNT, labNeeds[resource] ?? 0);
+};
+
+/**
+ * 获取 lab 目标需要的基础矿物
+ *
+ * @param room 自己的房间
+ */
+const getLabNeeds = function (room: Room): Stock {
+  const target = room.memory.lab?.target;
+  return target ? getBaseMineralNeedsPure(target.compound, target.amount, getStock(room)) : {};
+};
+
+/**
+ * 获取资源的卖出阈值
+ *
+ * @param resource 资源类型
+ * @returns 不卖的资源返回 undefined
+ */
+const getSellThreshold = function (resource: ResourceConstant): number | undefined {
+  return Memory.trade?.thresholds?.[resource] ?? DEFAULT_SELL_THRESHOLDS[resource];
+};
+
+/**
+ * 获取资源最近的成交均价
+ *
+ * @param resource 资源类型
+ */
+const getAveragePrice = function (resource: ResourceConstant): number | undefined {
+  return getAveragePricePure(Game.market.getHistory(resource));
+};
+
+/**
+ * 和市场上价格最好并且价格合理的订单成交
+ *
+ * @param terminal 房间的 terminal
+ * @param resource 资源类型
+ * @param amount 想要交易的数量
+ * @param type 自己是卖出还是买入
+ * @returns 是否成交
+ */
+const deal = function (
+  terminal: StructureTerminal,
+  resource: ResourceConstant,
+  amount: number,
+  type: "sell" | "buy"
+): boolean {
+  const average = getAveragePrice(resource);
+  const orders = Game.market
+    .getAllOrders({ type: type === "sell" ? ORDER_BUY : ORDER_SELL, resourceType: resource })
+    .filter(order => order.roomName && order.remainingAmount > 0 && isPriceSanePure(order.price, average, type))
+    .sort((a, b) => (type === "sell" ? b.price - a.price : a.price - b.price));
+
+  const roomName = terminal.room.name;
+  for (const order of orders) {
+    let count = Math.min(amount, order.remainingAmount);
+    if (type === "buy") count = Math.min(count, Math.floor(Game.market.credits / order.price));
+    const cost = Game.market.calcTransactionCost(count, roomName, order.roomName as string);
+    // 卖能量时运费也从 terminal 的能量中扣除
+    const energy = resource === RESOURCE_ENERGY && type === "sell" ? count + cost : cost;
+    if (count <= 0 || terminal.store[RESOURCE_ENERGY] < energy) continue;
+
+    if (Game.market.deal(order.id, count, roomName) !== OK) continue;
+    recordTrade({ type, room: roomName, resource, amount: count, price: order.price, target: order.roomName });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * 在房间之间平衡资源，每种资源每次最多转移一笔
+ *
+ * @param terminals 所有可以使用的 terminal
+ * @param used 这一轮已经交易过的房间
+ */
+const balanceResources = function (terminals: StructureTerminal[], used: Set<string>): void {
+  const labNeeds: { [roomName: string]: Stock } = {};
+  for (const terminal of terminals) labNeeds[terminal.room.name] = getLabNeeds(terminal.room);
+
+  for (const resource of [RESOURCE_ENERGY, ...BASE_MINERALS]) {
+    const stocks: { [roomName: string]: { amount: number; demand: number } } = {};
+    for (const terminal of terminals) {
+      const { room } = terminal;
+      if (used.has(room.name)) continue;
+      stocks[room.name] = { amount: getRoomAmount(room, resource), demand: getDemand(resource, labNeeds[room.name]) };
+    }
+
+    const transfer = planTransferPure(stocks);
+    const terminal = transfer && terminals.find(t => t.room.name === transfer.from);
+    if (!transfer || !terminal || terminal.cooldown > 0) continue;
+
+    // 转移能量时自己也要付运费
+    const cost = Game.market.calcTransactionCost(transfer.amount, transfer.from, transfer.to);
+    const reserved = resource === RESOURCE_ENERGY ? cost : 0;
+    const amount = Math.min(transfer.amount, terminal.store[resource] - reserved);
+    if (amount < MIN_SEND_AMOUNT || terminal.store[RESOURCE_ENERGY] < cost) continue;
+
+    if (terminal.send(resource, amount, transfer.to) === OK) {
+      used.add(transfer.from);
+      recordTrade({ type: "send", room: transfer.from, resource, amount, target: transfer.to });
+    }
+  }
+};
+
+/**
+ * 其他房间是否有多余的资源，有的话等待平衡，不用从市场买
+ *
+ * @param resource 资源类型
+ * @param terminal 缺少资源的房间的 terminal
+ * @param terminals 所有可以使用的 terminal
+ */
+const hasSurplusElsewhere = function (
+  resource: ResourceConstant,
+  terminal: StructureTerminal,
+  terminals: StructureTerminal[]
+): boolean {
+  return terminals.some(
+    t => t !== terminal && getRoomAmount(t.room, resource) - getDemand(resource, {}) >= MIN_SEND_AMOUNT
+  );
+};
+
+/**
+ * 从市场买入 lab 缺少并且其他房间也没有多余的基础矿物
+ *
+ * @param terminal 房间的 terminal
+ * @param terminals 所有可以使用的 terminal
+ * @returns 是否进行了交易
+ */
+const buyReagents = function (terminal: StructureTerminal, terminals: StructureTerminal[]): boolean {
+  const labNeeds = getLabNeeds(terminal.room);
+  for (const resource of Object.keys(labNeeds) as ResourceConstant[]) {
+    const missing = (labNeeds[resource] ?? 0) - getRoomAmount(terminal.room, resource);
+    if (missing <= 0 || hasSurplusElsewhere(resource, terminal, terminals)) continue;
+    if (deal(terminal, resource, Math.min(missing, MAX_TRADE_AMOUNT), "buy")) return true;
+  }
+  return false;
+};
+
+/**
+ * 把超过卖出阈值的资源卖给市场
+ *
+ * @param terminal 房间的 terminal
+ * @returns 是否进行了交易
+ */
+const sellSurplus = function (terminal: StructureTerminal): boolean {
+  for (const resource in terminal.store) {
+    const threshold = getSellThreshold(resource as ResourceConstant);
+    if (threshold === undefined) continue;
+
+    const surplus = getRoomAmount(terminal.room, resource as ResourceConstant) - threshold;
+    const amount = Math.min(surplus, terminal.store[resource as ResourceConstant], MAX_TRADE_AMOUNT);
+    if (amount >= MIN_SEND_AMOUNT && deal(terminal, resource as ResourceConstant, amount, "sell")) return true;
+  }
+  return false;
+};
+
+/**
+ * 获取一个建筑中的资源
+ *
+ * @param structure storage 或者 terminal
+ */
+const getStoreStock = function (structure: StructureStorage | StructureTerminal): Stock {
+  const stock: Stock = {};
+  for (const resource in structure.store) stock[resource] = structure.store[resource as ResourceConstant];
+  return stock;
+};
+
+/**
+ * 获取当前 manager 需要执行的 terminal 搬运任务
+ * 参与平衡的资源按照房间的需求保留，有卖出阈值的资源按照阈值保留，取两者中较小的
+ *
+ * @param room 自己的房间
+ */
+export const getTerminalTasks = function (room: Room): TransportTask[] {
+  const { terminal, storage } = room;
+  if (!terminal?.my || !storage) return [];
+
+  const labNeeds = getLabNeeds(room);
+  const keep: Stock = {};
+  for (const resource of [RESOURCE_ENERGY, ...BASE_MINERALS]) keep[resource] = getDemand(resource, labNeeds);
+  for (const resource in storage.store) {
+    const threshold = getSellThreshold(resource as ResourceConstant);
+    if (threshold !== undefined) keep[resource] = Math.min(keep[resource] ?? threshold, threshold);
+  }
+
+  return getTerminalTasksPure(terminal.id, getStoreStock(terminal), getStoreStock(storage), keep);
+};
+
+/**
+ * 运行所有房间的 terminal
+ * 需要每 tick 执行一次
+ */
+export const runTerminals = function (): void {
+  if (Game.time % TERMINAL_INTERVAL !== 0) return;
+
+  const terminals: StructureTerminal[] = [];
+  for (const roomName in Game.rooms) {
+    const terminal = Game.rooms[roomName].terminal;
+    if (terminal?.my && terminal.isActive()) terminals.push(terminal);
+  }
+  if (terminals.length === 0) return;
+
+  const used = new Set<string>();
+  if (terminals.length > 1) balanceResources(terminals, used);
+
+  for (const terminal of terminals) {
+    if (used.has(terminal.room.name) || terminal.cooldown > 0) continue;
+    if (!buyReagents(terminal, terminals)) sellSurplus(terminal);
+  }
+};
+
+/**
+ * 挂载 terminal 的控制台命令
+ * 需要在全局重置时执行一次
+ */
+export const mountTerminal = function (): void {
+  global.sellThreshold = function (resource: ResourceConstant, amount?: number): string {
+    const memory = getTradeMemory();
+    if (!memory.thresholds) memory.thresholds = {};
+    if (amount === undefined) {
+      delete memory.thresholds[resource];
+      const threshold = getSellThreshold(resource);
+      return `[terminal] ${resource} 的卖出阈值已恢复默认：${threshold ?? "不卖出"}`;
+    }
+
+    memory.thresholds[resource] = amount;
+    return `[terminal] ${resource} 的卖出阈值设置为 ${amount}`;
+  };
+};
@@ -0,0 +1,239 @@
+import { getTowerPowerPure } from "@/Room/autoPlanner";
+
+/**
+ * 塔修理道路和 container 时自身至少保留的能量，剩下的留给防御
+ */
+const TOWER_REPAIR_ENERGY = 600;
+
+/**
+ * 有 storage 时，storage 中的能量低于该值不修理道路和 container
+ */
+const REPAIR_MIN_STORAGE_ENERGY = 20000;
+
+/**
+ * 道路和 container 的血量低于上限的多少时才修理
+ */
+const REPAIR_RATIO = 0.6;
+
+/**
+ * 每隔多少 tick 查找一次需要修理的道路和 container
+ */
+const REPAIR_INTERVAL = 5;
+
+/**
+ * 敌人离 rampart 多少格以内时视为 rampart 正在被攻击
+ */
+const RAMPART_DANGER_RANGE = 3;
+
+/**
+ * 塔攻击时需要的敌人信息
+ */
+export interface HostileInfo {
+  id: string;
+  x: number;
+  y: number;
+  heal: number; // 每 tick 对相邻目标的治疗量
+  rangedHeal: number; // 每 tick 对 3 格以内目标的治疗量
+  damageRatio: number; // 强化过的 TOUGH 带来的伤害倍率，没有时为 1
+}
+
+/**
+ * 计算目标每 tick 能受到的治疗量（纯函数版本），包括自己治疗自己
+ *
+ * @param target 目标
+ * @param hostiles 房间内所有的敌人
+ */
+export function getIncomingHealPure(target: HostileInfo, hostiles: HostileInfo[]): number {
+  let heal = 0;
+  for (const hostile of hostiles) {
+    const range = Math.max(Math.abs(hostile.x - target.x), Math.abs(hostile.y - target.y));
+    if (range <= 1) heal += hostile.heal;
+    else if (range <= 3) heal += hostile.rangedHeal;
+  }
+  return heal;
+}
+
+/**
+ * 计算所有塔对一个位置的总伤害（纯函数版本）
+ *
+ * @param towers 塔的位置
+ * @param target 目标位置
+ */
+export function getTowerDamagePure(towers: { x: number; y: number }[], target: { x: number; y: number }): number {
+  let damage = 0;
+  for (const tower of towers) {
+    const range = Math.max(Math.abs(tower.x - target.x), Math.abs(tower.y - target.y));
+    damage += getTowerPowerPure(TOWER_POWER_ATTACK, range);
+  }
+  return damage;
+}
+
+/**
+ * 选择集火的目标（纯函数版本）：扣除治疗后受到伤害最多的敌人
+ *
+ * @param towers 塔的位置
+ * @param hostiles 房间内所有的敌人
+ * @returns 所有敌人的治疗都能抵消塔的伤害时返回 undefined，避免白白消耗能量
+ */
+export function chooseAttackTargetPure(
+  towers: { x: number; y: number }[],
+  hostiles: HostileInfo[]
+): string | undefined {
+  let best: string | undefined;
+  let bestDamage = 0;
+  for (const hostile of hostiles) {
+    const damage = getTowerDamagePure(towers, hostile) * hostile.damageRatio - getIncomingHealPure(hostile, hostiles);
+    if (damage > bestDamage) {
+      best = hostile.id;
+      bestDamage = damage;
+    }
+  }
+  return best;
+}
+
+/**
+ * 获取部件的强化效果
+ *
+ * @param part 身体部件
+ * @param action 强化的效果，例如 heal
+ * @returns 没有强化时返回 1
+ */
+export const getBoostEffect = function (part: Pick<BodyPartDefinition, "type" | "boost">, action: string): number {
+  if (!part.boost) return 1;
+  const boosts: { [boost: string]: { [action: string]: number } } | undefined = BOOSTS[part.type];
+  const effect = boosts?.[part.boost];
+  return effect?.[action] ?? 1;
+};
+
+/**
+ * 根据敌人的身体生成塔攻击时需要的信息
+ *
+ * @param creep 敌人
+ */
+const getHostileInfo = function (creep: Creep): HostileInfo {
+  let heal = 0;
+  let damageRatio = 1;
+  for (const part of creep.body) {
+    if (part.hits === 0) continue;
+    if (part.type === HEAL) heal += getBoostEffect(part, "heal");
+    else if (part.type === TOUGH) damageRatio = Math.min(damageRatio, getBoostEffect(part, "damage"));
+  }
+  return {
+    id: creep.id,
+    x: creep.pos.x,
+    y: creep.pos.y,
+    heal: heal * HEAL_POWER,
+    rangedHeal: heal * RANGED_HEAL_POWER,
+    damageRatio
+  };
+};
+
+/**
+ * 所有的塔集火同一个敌人
+ *
+ * @param towers 有能量的塔
+ * @param hostiles 房间内所有的敌人
+ * @returns 是否进行了攻击
+ */
+const attackHostile = function (towers: StructureTower[], hostiles: Creep[]): boolean {
+  const id = chooseAttackTargetPure(
+    towers.map(tower => tower.pos),
+    hostiles.map(getHostileInfo)
+  );
+  const target = id && hostiles.find(hostile => hostile.id === id);
+  if (!target) return false;
+
+  for (const tower of towers) tower.attack(target);
+  return true;
+};
+
+/**
+ * 治疗受伤最重的己方 creep，由近到远使用塔，治疗量足够后剩下的塔不再出手
+ *
+ * @param towers 有能量的塔
+ * @param room 塔所在的房间
+ * @returns 是否进行了治疗
+ */
+const healCreep = function (towers: StructureTower[], room: Room): boolean {
+  let target: Creep | undefined;
+  for (const creep of room.find(FIND_MY_CREEPS)) {
+    if (creep.hits === creep.hitsMax) continue;
+    if (!target || creep.hitsMax - creep.hits > target.hitsMax - target.hits) target = creep;
+  }
+  if (!target) return false;
+
+  const wounded = target;
+  let missing = wounded.hitsMax - wounded.hits;
+  const sorted = [...towers].sort((a, b) => a.pos.getRangeTo(wounded) - b.pos.getRangeTo(wounded));
+  for (const tower of sorted) {
+    if (missing <= 0) break;
+    tower.heal(wounded);
+    missing -= getTowerPowerPure(TOWER_POWER_HEAL, tower.pos.getRangeTo(wounded));
+  }
+  return true;
+};
+
+/**
+ * 加固正在被攻击的 rampart：敌人附近血量最低的那一个
+ *
+ * @param towers 有能量的塔
+ * @param hostiles 房间内所有的敌人
+ * @returns 是否进行了修理
+ */
+const reinforceRampart = function (towers: StructureTower[], hostiles: Creep[]): boolean {
+  let target: StructureRampart | undefined;
+  const ramparts = towers[0].room.find<StructureRampart>(FIND_MY_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_RAMPART && s.hits < s.hitsMax
+  });
+  for (const rampart of ramparts) {
+    if (target && rampart.hits >= target.hits) continue;
+    if (hostiles.some(hostile => hostile.pos.inRangeTo(rampart, RAMPART_DANGER_RANGE))) target = rampart;
+  }
+  if (!target) return false;
+
+  for (const tower of towers) tower.repair(target);
+  return true;
+};
+
+/**
+ * 在有多余能量时修理受损的道路和 container，一次只用一座塔
+ *
+ * @param towers 有能量的塔
+ * @param room 塔所在的房间
+ */
+const repairRoads = function (towers: StructureTower[], room: Room): void {
+  if (Game.time % REPAIR_INTERVAL !== 0) return;
+  if (room.storage && room.storage.store[RESOURCE_ENERGY] < REPAIR_MIN_STORAGE_ENERGY) return;
+
+  const tower = towers.find(t => t.store[RESOURCE_ENERGY] >= TOWER_REPAIR_ENERGY);
+  if (!tower) return;
+
+  const target = tower.pos.findClosestByRange(FIND_STRUCTURES, {
+    filter: s =>
+      (s.structureType === STRUCTURE_ROAD || s.structureType === STRUCTURE_CONTAINER) &&
+      s.hits < s.hitsMax * REPAIR_RATIO
+  });
+  if (target) tower.repair(target);
+};
+
+/**
+ * 运行房间内的塔，按优先级执行：
+ * 1. 集火能打得死的敌人
+ * 2. 治疗受伤的己方 creep
+ * 3. 有敌人时加固被攻击的 rampart
+ * 4. 没有敌人时用多余的能量修理道路和 container
+ *
+ * @param room 自己的房间
+ */
+export const runTower = function (room: Room): void {
+  const towers = room.find<StructureTower>(FIND_MY_STRUCTURES, {
+    filter: s => s.structureType === STRUCTURE_TOWER && s.store[RESOURCE_ENERGY] >= TOWER_ENERGY_COST
+  });
+  if (towers.length === 0) return;
+
+  const hostiles = room.find(FIND_HOSTILE_CREEPS);
+  if (hostiles.length > 0 && attackHostile(towers, hostiles)) return;
+  if (healCreep(towers, room)) return;
+  if (hostiles.length > 0) reinforceRampart(towers, hostiles);
+  else repairRoads(towers, room);
+};
@@ -0,0 +1,88 @@
+/**
+ * manager 的建筑搬运任务
+ *
+ * lab、factory、terminal 等建筑把需要填充的原料和需要清空的产物整理成搬运任务，
+ * manager 在 spawn 和 extension 都填满时从 terminal 或 storage 取出原料送过去，产物存回 terminal 或 storage
+ */
+
+import { goTo } from "@/Creep/move";
+
+/**
+ * 一个搬运任务
+ */
+export interface TransportTask {
+  type: "fill" | "empty"; // 往建筑中填充或者从建筑中取出
+  target: string; // 建筑的 id
+  resource: ResourceConstant;
+  amount: number;
+}
+
+/**
+ * 获取存放资源的建筑：优先存进 terminal，terminal 满了存进 storage
+ *
+ * @param room 自己的房间
+ * @param resource 要存放的资源
+ * @returns 都没有空间时返回 undefined
+ */
+export const getDepositStore = function (
+  room: Room,
+  resource: ResourceConstant
+): StructureTerminal | StructureStorage | undefined {
+  return [room.terminal, room.storage].find(s => s && (s.store.getFreeCapacity(resource) ?? 0) > 0);
+};
+
+/**
+ * 获取房间内可以存放资源的剩余容量，即 terminal 和 storage 的剩余容量之和
+ *
+ * @param room 自己的房间
+ */
+export const getDepositFree = function (room: Room): number {
+  return (room.terminal?.store.getFreeCapacity() ?? 0) + (room.storage?.store.getFreeCapacity() ?? 0);
+};
+
+/**
+ * manager 执行搬运任务
+ * spawn 和 extension 都填满并且身上没有能量时才会接任务，身上的资源会先送到目的地
+ * 没有任务需要的资源存进 terminal 或 storage，都满了时放弃搬运
+ *
+ * @param creep manager
+ * @param tasks 房间内所有的搬运任务，按优先级排序
+ * @returns 是否在执行搬运
+ */
+export const runTransport = function (creep: Creep, tasks: TransportTask[]): boolean {
+  const room = creep.room;
+  if (!room.terminal && !room.storage) return false;
+
+  const carrying = Object.keys(creep.store) as ResourceConstant[];
+  if (carrying.length > 0) {
+    if (creep.store[RESOURCE_ENERGY] > 0 && !tasks.some(t => t.type === "fill" && t.resource === RESOURCE_ENERGY)) {
+      return false;
+    }
+    const resource = carrying[0];
+    const task = tasks.find(t => t.type === "fill" && t.resource === resource);
+    const target = task ? Game.getObjectById(task.target as Id<AnyStoreStructure>) : getDepositStore(room, resource);
+    if (!target) return false;
+    if (creep.transfer(target, resource) === ERR_NOT_IN_RANGE) goTo(creep, target, { range: 1 });
+    return true;
+  }
+
+  if (room.energyAvailable < room.energyCapacityAvailable) return false;
+  const task = tasks[0];
+  if (!task) return false;
+
+  const amount = Math.min(task.amount, creep.store.getFreeCapacity());
+  if (task.type === "empty") {
+    const target = Game.getObjectById(task.target as Id<AnyStoreStructure>);
+    if (target && creep.withdraw(target, task.resource, amount) === ERR_NOT_IN_RANGE) {
+      goTo(creep, target, { range: 1 });
+    }
+    return true;
+  }
+
+  // 往 terminal 中填充时只能从 storage 取出
+  const source = [room.terminal, room.storage].find(s => s && s.id !== task.target && s.store[task.resource] > 0);
+  if (!source) return false;
+  const result = creep.withdraw(source, task.resource, Math.min(amount, source.store[task.resource]));
+  if (result === ERR_NOT_IN_RANGE) goTo(creep, source, { range: 1 });
+  return true;
+};
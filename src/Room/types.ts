@@ -1,6 +1,220 @@
+import { BodyOptions } from "@/Creep/body";
 import { CreepRole } from "@/Creep/types";
+import { LayoutJob, LayoutScore, MisplacedStructure, Position } from "@/Room/autoPlanner";
+
+/**
+ * 已经完成的候选布局，保存在布局搜索的检查点中
+ */
+export interface CandidateCheckpoint {
+  plan: string; // packPlan 压缩后的布局和 rampart
+  score: LayoutScore;
+  misplaced: MisplacedStructure[];
+  targetMemory: LayoutJob["targetMemory"];
+  managerPos?: Position;
+}
+
+/**
+ * 布局搜索的检查点，global 重置后从第一个没有完成的候选布局继续
+ */
+export interface LayoutCheckpoint {
+  template: string; // 搜索使用的布局模板
+  candidates: (CandidateCheckpoint | null)[]; // 已经完成的候选布局，规划失败的为 null
+}
+
+/**
+ * 孵化任务
+ */
+export interface SpawnTask {
+  role: CreepRole; // 要孵化的角色
+  priority: number; // 优先级，越小越先孵化
+  memory?: Partial<CreepMemory>; // 孵化时额外写入的内存
+  body?: BodyOptions; // 生成身体部件时的可选项
+}
+
+/**
+ * 外矿房间的能量源
+ */
+export interface RemoteSourceMemory {
+  containerPos: string; // container 的位置，格式为 "x,y"
+  pathLength: number; // 从 storage（或 spawn）到 container 的路径长度
+}
+
+/**
+ * 外矿房间，保存在所属房间的内存中
+ */
+export interface RemoteMemory {
+  sources: { [sourceId: string]: RemoteSourceMemory };
+  dangerUntil?: number; // 有敌人时撤离，到这个 tick 之前不再派出 creep
+  income: number; // 本统计周期内运回的能量
+  since: number; // 本统计周期开始的 tick
+  net?: number; // 上个统计周期每 tick 的净收益（扣除 creep 的孵化成本）
+}
+
+/**
+ * 布局规划为能量源、矿物和控制器保存的内存，见 RoomMemory.targets
+ */
+export interface TargetMemory {
+  containerPos?: string; // container 的位置，格式为 "x,y"
+  linkPos?: string; // link 的位置，格式为 "x,y"
+}
+
+/**
+ * 房间的侦查情报，有视野时记录
+ */
+export interface RoomIntel {
+  time: number; // 上次看到该房间的 tick
+  sources: { id: string; pos: string }[]; // 能量源，坐标格式为 "x,y"
+  mineral?: { id: string; pos: string; type: MineralConstant }; // 矿物
+  controller?: {
+    id: string;
+    pos: string;
+    owner?: string; // 拥有者的用户名
+    reservation?: string; // 预定者的用户名
+    level: number;
+  };
+  hostileStructures: { [type: string]: number }; // 别人的建筑数量，按类型统计
+  powerBank?: PowerBankIntel; // 过道房间中的 power bank
+  layout?: ExpansionLayout; // 地形的布局评估结果，地形不会变化，只需要评估一次
+}
+
+/**
+ * 侦查到的 power bank
+ */
+export interface PowerBankIntel {
+  id: string;
+  pos: string; // 格式为 "x,y"
+  power: number; // power 的数量
+  hits: number; // 侦查时的血量
+  decayAt: number; // 消失的 tick
+  freeSpots: number; // 周围可以站人的位置数量
+}
+
+/**
+ * 正在进行的 power bank 采集行动，保存在负责的房间的内存中
+ */
+export interface PowerBankOperation {
+  roomName: string; // power bank 所在的房间
+  id: string;
+  pos: string; // 格式为 "x,y"
+  power: number;
+  decayAt: number;
+  pairs: number; // 派出的 attacker 和 healer 小组数量
+  carriers: number; // 需要的 carrier 数量
+  carriersSent?: boolean; // carrier 是否已经加入孵化队列
+}
+
+/**
+ * 扩张时对房间地形的布局评估
+ */
+export interface ExpansionLayout {
+  missing: number; // 完整布局中放不下的建筑数量
+  ramparts: number; // 需要的 rampart 数量
+  score: number; // 布局的总分，越低越好，见 scoreLayoutPure
+}
+
+/**
+ * 敌人的威胁类型，按威胁程度从低到高排列
+ */
+export enum ThreatType {
+  Scout = "scout", // 玩家的侦查 creep，没有攻击和治疗部件
+  Invader = "invader", // NPC 入侵者
+  Harasser = "harasser", // 玩家的骚扰部队
+  Siege = "siege" // 玩家的强化部队或者大规模攻城部队
+}
+
+/**
+ * 房间当前面临的威胁
+ */
+export interface ThreatMemory {
+  type: ThreatType; // 威胁最大的敌人的类型
+  damage: number; // 所有敌人每 tick 的总伤害
+  heal: number; // 所有敌人每 tick 的总治疗量
+  since: number; // 威胁开始的时间
+}
+
+/**
+ * lab 反应的阶段
+ */
+export enum ReactionStage {
+  Fill = "fill", // manager 往输入 lab 中填充原料
+  React = "react", // 输出 lab 进行反应
+  Empty = "empty" // manager 清空所有 lab，之后规划下一个反应
+}
+
+/**
+ * 一次 lab 反应
+ */
+export interface LabReaction {
+  product: MineralCompoundConstant; // 产物
+  reagents: [ResourceConstant, ResourceConstant]; // 两个输入 lab 分别放入的原料
+  amount: number; // 这一批要生产的数量
+}
+
+/**
+ * 一个 creep 的强化请求，按 lab 的 id 索引每个 lab 需要准备的化合物和能量
+ */
+export interface BoostRequest {
+  creep: string; // 请求强化的 creep
+  since: number; // 请求的时间，超时后放弃
+  labs: { [labId: string]: { compound: MineralBoostConstant; amount: number; energy: number } };
+}
+
+/**
+ * 房间的 lab 状态
+ */
+export interface LabMemory {
+  inputs?: [string, string]; // 两个输入 lab 的 id
+  stage: ReactionStage; // 当前反应的阶段
+  target?: { compound: MineralCompoundConstant; amount: number }; // 目标化合物和要囤积的数量
+  reaction?: LabReaction; // 正在进行的反应
+  boost?: BoostRequest; // 正在进行的强化，强化期间暂停反应
+}
+
+/**
+ * factory 的生产规则，按配置的优先级依次检查
+ */
+export enum FactoryRule {
+  Energy = "energy", // 能量不足时把电池解压成能量
+  Commodity = "commodity", // 有等级的 factory 生产对应等级的商品
+  Bar = "bar", // 本房间的矿物囤积过多时压缩成 bar
+  Battery = "battery" // 能量充足时压缩成电池
+}
+
+/**
+ * 房间的 factory 状态
+ */
+export interface FactoryMemory {
+  priorities?: FactoryRule[]; // 手动设置的生产规则优先级，覆盖默认值
+  product?: CommoditiesTypes; // 当前的生产目标
+}
+
+/**
+ * 一条 terminal 交易记录
+ */
+export interface TradeLog {
+  time: number; // 交易的时间
+  type: "send" | "sell" | "buy"; // 房间间转移、卖出或者买入
+  room: string; // 自己的房间
+  resource: ResourceConstant; // 资源类型
+  amount: number; // 数量
+  price?: number; // 市场交易的单价
+  target?: string; // 转移的目标房间或者订单所在的房间
+}
+
+/**
+ * terminal 和市场的设置与交易记录
+ */
+export interface TradeMemory {
+  thresholds?: { [resource: string]: number }; // 手动设置的卖出阈值，覆盖默认值
+  history: TradeLog[]; // 最近的交易记录，超过上限时丢弃最旧的
+}
 
 declare global {
+  interface Memory {
+    intel?: { [roomName: string]: RoomIntel }; // 侦查情报，按房间名索引
+    trade?: TradeMemory; // terminal 和市场的设置与交易记录
+  }
+
   interface Room {
     myOwned: () => boolean; // 是否是我拥有的房间
     countRole: (role?: CreepRole) => number; // 统计房间内角色数量
@@ -10,5 +224,22 @@ declare global {
 
   interface RoomMemory {
     sites: number; // 房间内建造工地数量
+    layout?: string; // 压缩后的房间规划，见 layoutStore
+    layoutTemplate?: string; // 规划时使用的布局模板，见 LAYOUT_TEMPLATES
+    layoutCheckpoint?: LayoutCheckpoint; // 进行中的布局搜索的检查点，见 builder
+    planRetry?: number; // 布局规划失败后，到这个 tick 才会重试
+    misplaced?: MisplacedStructure[]; // 接管房间时不在布局中、建议拆除的建筑，不会自动拆除
+    managerPos?: string; // manager 的站位，格式为 "x,y"，由布局规划生成
+    targets?: { [targetId: string]: TargetMemory }; // 布局规划为能量源、矿物和控制器保存的内存，按目标的 id 索引
+    showLayout?: boolean; // 是否绘制布局预览，见 layoutVisual
+    level?: number; // 上次按照布局放置工地时的控制器等级
+    rampartHits?: number; // rampart 的目标血量
+    spawnQueue?: SpawnTask[]; // 孵化队列
+    roleQuota?: { [role in CreepRole]?: number }; // 手动设置的角色数量，会覆盖默认配额
+    remotes?: { [roomName: string]: RemoteMemory }; // 外矿房间，按房间名索引
+    powerBank?: PowerBankOperation; // 正在进行的 power bank 采集行动
+    threat?: ThreatMemory; // 房间当前面临的威胁，没有敌人时不存在
+    lab?: LabMemory; // lab 的反应和强化状态
+    factory?: FactoryMemory; // factory 的生产状态
   }
 }
@@ -0,0 +1,43 @@
+import { creepRunner } from "@/Creep/creepRunner";
+import { powerCreepRunner } from "@/Creep/powerCreepRunner";
+import { forgetCreep } from "@/Creep/utils";
+import { mountExpansion, runExpansion } from "@/Room/expansion";
+import { mountFactory } from "@/Room/factory";
+import { mountLabs } from "@/Room/labs";
+import { mountLayoutVisual, runLayoutVisual } from "@/Room/layoutVisual";
+import { mountRoom } from "@/Room/prototype";
+import { RoomOverlay } from "@/Room/RoomOverlay";
+import { roomRunner } from "@/Room/roomRunner";
+import { mountTerminal, runTerminals } from "@/Room/terminal";
+import { createApp } from "@/utils/framework";
+
+// 全局重置时挂载原型拓展和控制台命令
+mountRoom();
+mountLayoutVisual();
+mountExpansion();
+mountLabs();
+mountTerminal();
+mountFactory();
+
+const app = createApp({ roomRunner, creepRunner, powerCreepRunner });
+const overlay = new RoomOverlay();
+
+app.on({
+  born: () => console.log("[main] bot 已启动"),
+  tickStart: () => {
+    // 清理已经死亡的 creep 的内存和警告记录
+    for (const name in Memory.creeps) {
+      if (name in Game.creeps) continue;
+      delete Memory.creeps[name];
+      forgetCreep(name);
+    }
+  },
+  tickEnd: () => {
+    overlay.run();
+    runLayoutVisual();
+    runExpansion();
+    runTerminals();
+  }
+});
+
+export const loop = app.run;
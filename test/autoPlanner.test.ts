@@ -20,6 +20,25 @@ import {
   addArrays,
   multiplyArray,
   serialize,
+  buildLayoutPure,
+  LAYOUT_TEMPLATES,
+  LayoutTemplateSet,
+  RoomLayout,
+  createLayoutJob,
+  runLayoutJob,
+  createLayoutSearch,
+  runLayoutSearch,
+  getBestCandidate,
+  scoreLayoutPure,
+  createEmptyLayout,
+  findMinPositions,
+  applyLayoutJobMemory,
+  calculatePure,
+  getCutTilesPure,
+  getMissingStructuresPure,
+  getTowerPowerPure,
+  LayoutPathFinder,
+  LayoutRoomMemory,
   TerrainData
 } from "@/Room/autoPlanner";
 
@@ -38,6 +57,92 @@ function createTestTerrain(walls: [number, number][] = []): TerrainData {
   };
 }
 
+/**
+ * 创建固定的测试房间地形
+ * 四周是墙，每条边留一个出口，中间有几块墙
+ */
+function createFixedRoomTerrain(): TerrainData {
+  const walls: [number, number][] = [];
+  for (let i = 0; i < ROOM_SIZE; i++) {
+    if (i < 20 || i > 25) walls.push([i, 0], [i, ROOM_MAX_INDEX], [0, i], [ROOM_MAX_INDEX, i]);
+  }
+  for (let x = 8; x <= 14; x++) {
+    for (let y = 30; y <= 38; y++) walls.push([x, y]);
+  }
+  for (let x = 32; x <= 40; x++) {
+    for (let y = 6; y <= 10; y++) walls.push([x, y]);
+  }
+  return createTestTerrain(walls);
+}
+
+/**
+ * 简单的 BFS 寻路，用于替代 room.findPath
+ */
+function createBfsPathFinder(terrain: TerrainData): LayoutPathFinder {
+  return (from, to, range, blocked) => {
+    const prev = initArr<number>(-1);
+    const queue: [number, number][] = [[from.x, from.y]];
+    prev[from.x][from.y] = from.x * ROOM_SIZE + from.y;
+
+    for (let i = 0; i < queue.length; i++) {
+      const [x, y] = queue[i];
+      if (Math.max(Math.abs(x - to.x), Math.abs(y - to.y)) <= range) {
+        const path: { x: number; y: number }[] = [];
+        let [cx, cy] = [x, y];
+        while (cx !== from.x || cy !== from.y) {
+          path.unshift({ x: cx, y: cy });
+          const p = prev[cx][cy];
+          [cx, cy] = [Math.floor(p / ROOM_SIZE), p % ROOM_SIZE];
+        }
+        return path;
+      }
+
+      for (const [dx, dy] of SURROUND_OFFSETS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx > ROOM_MAX_INDEX || ny < 0 || ny > ROOM_MAX_INDEX) continue;
+        if (prev[nx][ny] !== -1 || terrain.get(nx, ny) === TERRAIN_MASK_WALL || blocked?.[nx][ny]) continue;
+        prev[nx][ny] = x * ROOM_SIZE + y;
+        queue.push([nx, ny]);
+      }
+    }
+    return [];
+  };
+}
+
+/**
+ * 从出口开始 BFS，不经过墙和 rampart 能到达的位置
+ */
+function getReachableFromExits(terrain: TerrainData, ramparts: { x: number; y: number }[]): boolean[][] {
+  const blocked = new Set(ramparts.map(pos => `${pos.x},${pos.y}`));
+  const reached = initArr(false);
+  const queue: [number, number][] = [];
+
+  for (let x = 0; x < ROOM_SIZE; x++) {
+    for (let y = 0; y < ROOM_SIZE; y++) {
+      const isEdge = x === 0 || y === 0 || x === ROOM_MAX_INDEX || y === ROOM_MAX_INDEX;
+      if (isEdge && terrain.get(x, y) !== TERRAIN_MASK_WALL) {
+        reached[x][y] = true;
+        queue.push([x, y]);
+      }
+    }
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const [x, y] = queue[i];
+    for (const [dx, dy] of SURROUND_OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx > ROOM_MAX_INDEX || ny < 0 || ny > ROOM_MAX_INDEX) continue;
+      if (reached[nx][ny] || blocked.has(`${nx},${ny}`) || terrain.get(nx, ny) === TERRAIN_MASK_WALL) continue;
+      reached[nx][ny] = true;
+      queue.push([nx, ny]);
+    }
+  }
+
+  return reached;
+}
+
 describe("autoPlanner 纯函数测试", () => {
   describe("initArr", () => {
     it("应该创建正确大小的数组", () => {
@@ -358,5 +463,464 @@ describe("autoPlanner 纯函数测试", () => {
       expect(serialize(pos)).toBe("10,20");
     });
   });
+
+  describe("buildLayoutPure", () => {
+    const sources = [
+      { id: "source1", pos: { x: 10, y: 10 } },
+      { id: "source2", pos: { x: 40, y: 40 } }
+    ];
+    const mineral = { id: "mineral", pos: { x: 42, y: 15 } };
+    const controller = { id: "controller", pos: { x: 20, y: 40 } };
+
+    const plan = (
+      existing: { x: number; y: number; structureType: string }[] = [],
+      templateSet: LayoutTemplateSet = LAYOUT_TEMPLATES.flower
+    ) => {
+      const terrain = createFixedRoomTerrain();
+      const roomMemory: LayoutRoomMemory = {};
+      const layout = buildLayoutPure(
+        terrain,
+        sources,
+        mineral,
+        controller,
+        roomMemory,
+        existing,
+        createBfsPathFinder(terrain),
+        templateSet
+      );
+      return { layout, roomMemory, terrain };
+    };
+
+    it("应该生成固定的布局", () => {
+      const { layout, roomMemory } = plan();
+
+      expect(layout).toMatchSnapshot();
+      expect(roomMemory).toMatchSnapshot();
+    });
+
+    it.each(Object.keys(LAYOUT_TEMPLATES))("模板 %s 应该放置 8 级所需的全部建筑", name => {
+      const { layout } = plan([], LAYOUT_TEMPLATES[name]);
+
+      expect(layout.spawn).toHaveLength(3);
+      expect(layout.extension).toHaveLength(60);
+      expect(layout.tower).toHaveLength(6);
+      expect(layout.lab).toHaveLength(10);
+      expect(layout.storage).toHaveLength(1);
+      expect(layout.terminal).toHaveLength(1);
+      expect(layout.factory).toHaveLength(1);
+      expect(layout.powerSpawn).toHaveLength(1);
+      expect(layout.nuker).toHaveLength(1);
+      expect(layout.observer).toHaveLength(1);
+      expect(layout.link).toHaveLength(4);
+      expect(layout.container).toHaveLength(4);
+      expect(layout.road.length).toBeGreaterThan(0);
+      expect(layout.extractor).toEqual([[mineral.pos.x, mineral.pos.y]]);
+    });
+
+    it.each(Object.keys(LAYOUT_TEMPLATES))("模板 %s 的建筑不应该放在墙上或者互相重叠", name => {
+      const { layout, terrain } = plan([], LAYOUT_TEMPLATES[name]);
+      const seen = new Set<string>();
+
+      for (const type of Object.keys(layout) as (keyof RoomLayout)[]) {
+        // extractor 放在矿上，矿所在的位置不会被其他建筑占用
+        if (type === "extractor") continue;
+        for (const [x, y] of layout[type]) {
+          expect(terrain.get(x, y)).not.toBe(TERRAIN_MASK_WALL);
+          expect(seen.has(`${x},${y}`)).toBe(false);
+          seen.add(`${x},${y}`);
+        }
+      }
+    });
+
+    it.each(Object.keys(LAYOUT_TEMPLATES))("模板 %s 应该把核心建筑放在 manager 站位周围", name => {
+      const { layout, roomMemory } = plan([], LAYOUT_TEMPLATES[name]);
+      const [mx, my] = roomMemory.managerPos!.split(",").map(Number);
+      const range = ([x, y]: [number, number]) => Math.max(Math.abs(x - mx), Math.abs(y - my));
+
+      for (const type of ["storage", "terminal", "factory", "powerSpawn"] as const) {
+        expect(range(layout[type][0])).toBe(1);
+      }
+      // 第一个 link 是核心 link
+      expect(range(layout.link[0])).toBe(1);
+      for (const pos of layout.spawn) expect(range(pos)).toBeLessThanOrEqual(2);
+      expect(range(layout.nuker[0])).toBeLessThanOrEqual(3);
+
+      // manager 站位本身不能放任何东西
+      for (const type of Object.keys(layout) as (keyof RoomLayout)[]) {
+        for (const pos of layout[type]) expect(pos).not.toEqual([mx, my]);
+      }
+    });
+
+    it("应该按照模板的数量和权重放置建筑群", () => {
+      const templateSet: LayoutTemplateSet = {
+        name: "test",
+        clusters: [
+          { name: "storage", structures: { storage: [[0, 0]] }, count: 1, weights: { wall: -1 } },
+          { name: "tower", structures: { tower: [[0, 0], [1, 0]] }, count: 2, weights: { storage: 1 } },
+          { name: "observer", structures: { observer: [[0, 0]] }, count: 1, weights: { storage: -1 } }
+        ]
+      };
+      const { layout } = plan([], templateSet);
+      const [sx, sy] = layout.storage[0];
+      const range = ([x, y]: [number, number]) => Math.max(Math.abs(x - sx), Math.abs(y - sy));
+
+      expect(layout.tower).toHaveLength(4);
+      expect(layout.spawn).toHaveLength(0);
+      for (const pos of layout.tower) expect(range(pos)).toBeLessThanOrEqual(2);
+      expect(range(layout.observer[0])).toBeGreaterThan(10);
+    });
+
+    it("放不下的建筑群应该跳过", () => {
+      const templateSet: LayoutTemplateSet = {
+        name: "test",
+        clusters: [{ name: "huge", structures: { lab: [[0, 0], [60, 0]] }, count: 1, weights: {} }]
+      };
+      const { layout } = plan([], templateSet);
+
+      expect(layout.lab).toHaveLength(0);
+    });
+
+    it("应该绕开已有的建筑", () => {
+      const { layout: original } = plan();
+      const [sx, sy] = original.storage[0];
+      const { layout } = plan([{ x: sx, y: sy, structureType: "spawn" }]);
+
+      expect(layout.storage[0]).not.toEqual([sx, sy]);
+    });
+
+    it("应该把 container 和 link 的位置保存到内存", () => {
+      const { roomMemory } = plan();
+
+      expect(roomMemory.targets?.source1.containerPos).toBeDefined();
+      expect(roomMemory.targets?.source1.linkPos).toBeDefined();
+      expect(roomMemory.targets?.controller.containerPos).toBeDefined();
+      expect(roomMemory.targets?.mineral.linkPos).toBeUndefined();
+    });
+  });
+
+  describe("runLayoutJob", () => {
+    const sources = [
+      { id: "source1", pos: { x: 10, y: 10 } },
+      { id: "source2", pos: { x: 40, y: 40 } }
+    ];
+    const mineral = { id: "mineral", pos: { x: 42, y: 15 } };
+    const controller = { id: "controller", pos: { x: 20, y: 40 } };
+
+    it("每次暂停后应该能继续执行，结果和一次执行完相同", () => {
+      const terrain = createFixedRoomTerrain();
+      const findPath = createBfsPathFinder(terrain);
+      const expected = buildLayoutPure(terrain, sources, mineral, controller, {}, [], findPath);
+
+      const job = createLayoutJob(sources, mineral, controller, []);
+      const steps: number[] = [];
+      let progress = runLayoutJob(job, terrain, findPath, () => true);
+      steps.push(progress.step);
+      while (!progress.done) {
+        progress = runLayoutJob(job, terrain, findPath, () => true);
+        steps.push(progress.step);
+      }
+
+      expect(steps).toEqual(Array.from({ length: progress.total }, (_, i) => i + 1));
+      expect(job.layout).toEqual(expected);
+    });
+
+    it("任务应该只包含普通数据，可以序列化后继续执行", () => {
+      const terrain = createFixedRoomTerrain();
+      const findPath = createBfsPathFinder(terrain);
+      const expected = buildLayoutPure(terrain, sources, mineral, controller, {}, [], findPath);
+
+      let calls = 0;
+      const job = createLayoutJob(sources, mineral, controller, []);
+      runLayoutJob(job, terrain, findPath, () => ++calls >= 5);
+      expect(job.step).toBe(5);
+
+      const restored = JSON.parse(JSON.stringify(job));
+      const progress = runLayoutJob(restored, terrain, findPath);
+      expect(progress.done).toBe(true);
+      expect(restored.layout).toEqual(expected);
+    });
+
+    it("完成后应该把 container 和 link 的位置合并到内存", () => {
+      const terrain = createFixedRoomTerrain();
+      const job = createLayoutJob(sources, mineral, controller, []);
+      runLayoutJob(job, terrain, createBfsPathFinder(terrain));
+
+      const roomMemory: LayoutRoomMemory = { targets: { mineral: { linkPos: "1,1" } } };
+      applyLayoutJobMemory(job, roomMemory);
+
+      expect(roomMemory.targets?.mineral.linkPos).toBe("1,1");
+      expect(roomMemory.targets?.mineral.containerPos).toBeDefined();
+      expect(roomMemory.targets?.source1.containerPos).toBeDefined();
+      expect(roomMemory.targets?.controller.linkPos).toBeDefined();
+    });
+  });
+
+  describe("接管已有建筑", () => {
+    const sources = [
+      { id: "source1", pos: { x: 10, y: 10 } },
+      { id: "source2", pos: { x: 40, y: 40 } }
+    ];
+    const mineral = { id: "mineral", pos: { x: 42, y: 15 } };
+    const controller = { id: "controller", pos: { x: 20, y: 40 } };
+
+    const runAdoptJob = (existing: Parameters<typeof createLayoutJob>[3]) => {
+      const terrain = createFixedRoomTerrain();
+      const job = createLayoutJob(sources, mineral, controller, existing, LAYOUT_TEMPLATES.flower, 0, true);
+      runLayoutJob(job, terrain, createBfsPathFinder(terrain));
+      return job;
+    };
+
+    it("应该保留自己的建筑并补全到 8 级的数量", () => {
+      const existing = [
+        { x: 25, y: 25, structureType: STRUCTURE_SPAWN, my: true },
+        { x: 27, y: 25, structureType: STRUCTURE_EXTENSION, my: true },
+        { x: 28, y: 25, structureType: STRUCTURE_EXTENSION, my: true }
+      ];
+      const job = runAdoptJob(existing);
+
+      expect(job.layout.spawn).toContainEqual([25, 25]);
+      expect(job.layout.extension).toContainEqual([27, 25]);
+      expect(job.layout.extension).toContainEqual([28, 25]);
+      expect(job.layout.spawn).toHaveLength(3);
+      expect(job.layout.extension).toHaveLength(60);
+      expect(job.misplaced).toEqual([]);
+    });
+
+    it("已有的 storage 应该和 hub 对齐", () => {
+      const job = runAdoptJob([{ x: 25, y: 25, structureType: STRUCTURE_STORAGE, my: true }]);
+
+      expect(job.layout.storage).toEqual([[25, 25]]);
+      expect(job.managerPos).toEqual({ x: 26, y: 26 });
+    });
+
+    it("离核心太远、不是自己的建筑应该列为建议拆除", () => {
+      const existing = [
+        { x: 25, y: 25, structureType: STRUCTURE_STORAGE, my: true },
+        { x: 45, y: 25, structureType: STRUCTURE_EXTENSION, my: true },
+        { x: 20, y: 20, structureType: STRUCTURE_TOWER, my: false }
+      ];
+      const job = runAdoptJob(existing);
+
+      const reasons = job.misplaced.map(({ x, y, reason }) => `${x},${y} ${reason}`);
+      expect(reasons).toEqual(["45,25 离核心太远", "20,20 不是自己的建筑"]);
+      expect(job.layout.extension).not.toContainEqual([45, 25]);
+      expect(job.layout.tower).not.toContainEqual([20, 20]);
+    });
+
+    it("被规划的建筑占用的道路应该列为建议拆除", () => {
+      const job = runAdoptJob([
+        { x: 25, y: 25, structureType: STRUCTURE_STORAGE, my: true },
+        { x: 26, y: 25, structureType: STRUCTURE_ROAD }
+      ]);
+
+      // hub 中 storage 右边一格是 terminal
+      expect(job.layout.terminal).toEqual([[26, 25]]);
+      expect(job.misplaced).toEqual([{ x: 26, y: 25, structureType: STRUCTURE_ROAD, reason: "规划中这里是 terminal" }]);
+    });
+
+    it("不接管时应该和没有已有建筑时的布局一致", () => {
+      const terrain = createFixedRoomTerrain();
+      const findPath = createBfsPathFinder(terrain);
+      const expected = buildLayoutPure(terrain, sources, mineral, controller, {}, [], findPath);
+
+      const job = createLayoutJob(sources, mineral, controller, [], LAYOUT_TEMPLATES.flower, 0, true);
+      runLayoutJob(job, terrain, findPath);
+      expect(job.layout).toEqual(expected);
+    });
+  });
+
+  describe("getMissingStructuresPure", () => {
+    it("空布局应该缺少全部 8 级建筑，link 不统计在内", () => {
+      // 3 spawn + 60 extension + 6 tower + 10 lab + storage/terminal/factory/powerSpawn/nuker/observer
+      expect(getMissingStructuresPure(createEmptyLayout())).toBe(85);
+    });
+
+    it("完整的布局不应该缺少建筑", () => {
+      const terrain = createFixedRoomTerrain();
+      const sources = [
+        { id: "source1", pos: { x: 10, y: 10 } },
+        { id: "source2", pos: { x: 40, y: 40 } }
+      ];
+      const mineral = { id: "mineral", pos: { x: 42, y: 15 } };
+      const controller = { id: "controller", pos: { x: 20, y: 40 } };
+      const layout = buildLayoutPure(terrain, sources, mineral, controller, {}, [], createBfsPathFinder(terrain));
+      expect(getMissingStructuresPure(layout)).toBe(0);
+    });
+  });
+
+  describe("calculatePure", () => {
+    const protectedPos: [number, number][] = [];
+    for (let x = 22; x <= 27; x++) {
+      for (let y = 22; y <= 27; y++) protectedPos.push([x, y]);
+    }
+    const controllerPos: [number, number] = [24, 40];
+
+    it("所有从出口出发的路径都应该被 rampart 截断", () => {
+      const terrain = createFixedRoomTerrain();
+      const [ramparts] = calculatePure(terrain, protectedPos, controllerPos);
+      const reached = getReachableFromExits(terrain, ramparts);
+
+      expect(ramparts.length).toBeGreaterThan(0);
+      for (const [x, y] of protectedPos) {
+        expect(reached[x][y]).toBe(false);
+      }
+      for (const [dx, dy] of SURROUND_OFFSETS) {
+        expect(reached[controllerPos[0] + dx][controllerPos[1] + dy]).toBe(false);
+      }
+    });
+
+    it("rampart 不应该放在墙上或者出口附近", () => {
+      const terrain = createFixedRoomTerrain();
+      const [ramparts] = calculatePure(terrain, protectedPos, controllerPos);
+
+      for (const pos of ramparts) {
+        expect(terrain.get(pos.x, pos.y)).not.toBe(TERRAIN_MASK_WALL);
+        for (const [dx, dy] of SURROUND_OFFSETS) {
+          const [nx, ny] = [pos.x + dx, pos.y + dy];
+          const isEdge = nx === 0 || ny === 0 || nx === ROOM_MAX_INDEX || ny === ROOM_MAX_INDEX;
+          expect(isEdge && terrain.get(nx, ny) !== TERRAIN_MASK_WALL).toBe(false);
+        }
+      }
+    });
+
+    it("成本数组应该只把 rampart 外侧标记为 0xff", () => {
+      const terrain = createFixedRoomTerrain();
+      const [ramparts, costArray] = calculatePure(terrain, protectedPos, controllerPos);
+      const reached = getReachableFromExits(terrain, ramparts);
+
+      for (let x = 0; x < ROOM_SIZE; x++) {
+        for (let y = 0; y < ROOM_SIZE; y++) {
+          expect(costArray[x][y]).toBe(reached[x][y] ? 0xff : 0);
+        }
+      }
+    });
+
+    it("被墙完全围住的区域不需要 rampart", () => {
+      const walls: [number, number][] = [];
+      for (let i = 10; i <= 20; i++) walls.push([i, 10], [i, 20], [10, i], [20, i]);
+      const terrain = createTestTerrain(walls);
+
+      expect(getCutTilesPure(terrain, [[15, 15]])).toEqual([]);
+    });
+  });
+
+  describe("findMinPositions", () => {
+    it("第一个位置应该和 findMin 相同", () => {
+      const matrix = initArr(5);
+      matrix[10][10] = 1;
+      matrix[30][30] = 1;
+
+      expect(findMinPositions(matrix, () => true, 1, 5)[0]).toEqual(findMin(matrix, () => true));
+    });
+
+    it("位置之间应该至少间隔 spacing 格", () => {
+      const matrix = initArr(5);
+      matrix[10][10] = 1;
+      matrix[11][11] = 2;
+      matrix[30][30] = 3;
+
+      expect(findMinPositions(matrix, () => true, 2, 5)).toEqual([[10, 10], [30, 30]]);
+    });
+  });
+
+  describe("scoreLayoutPure", () => {
+    const controller = { pos: { x: 25, y: 35 } };
+    const sources = [{ pos: { x: 25, y: 15 } }];
+
+    const createLayout = () => {
+      const layout = createEmptyLayout();
+      layout.storage.push([25, 25]);
+      layout.tower.push([25, 24]);
+      layout.extension.push([20, 25], [30, 25]);
+      return layout;
+    };
+
+    it("没有 storage 时不应该评分", () => {
+      expect(scoreLayoutPure(createTestTerrain(), createEmptyLayout(), [], sources, controller)).toBeUndefined();
+    });
+
+    it("应该计算各项评分", () => {
+      const score = scoreLayoutPure(createTestTerrain(), createLayout(), [{ x: 25, y: 40 }], sources, controller);
+
+      expect(score?.rampart).toBe(1);
+      // 资源在 10 格外，需要走到 1 格内；控制器在 10 格外，需要走到 3 格内
+      expect(score?.roadDistance).toBe((9 + 7) / 2);
+      expect(score?.extensionDistance).toBe(4);
+      // rampart 离塔 16 格
+      expect(score?.towerDamage).toBe(600 * (1 - (0.75 * 11) / 15));
+    });
+
+    it("更多的 rampart 和更远的距离应该得到更高的总分", () => {
+      const terrain = createTestTerrain();
+      const near = scoreLayoutPure(terrain, createLayout(), [{ x: 25, y: 30 }], sources, controller);
+      const layout = createLayout();
+      layout.extension = [[10, 25], [40, 25]];
+      const far = scoreLayoutPure(terrain, layout, [{ x: 25, y: 30 }, { x: 26, y: 30 }], sources, controller);
+
+      expect(far?.total).toBeGreaterThan(near?.total ?? 0);
+    });
+  });
+
+  describe("runLayoutSearch", () => {
+    const sources = [
+      { id: "source1", pos: { x: 10, y: 10 } },
+      { id: "source2", pos: { x: 40, y: 40 } }
+    ];
+    const mineral = { id: "mineral", pos: { x: 42, y: 15 } };
+    const controller = { id: "controller", pos: { x: 20, y: 40 } };
+
+    it("应该生成多个不同的候选布局并选出总分最低的", () => {
+      const terrain = createFixedRoomTerrain();
+      const search = createLayoutSearch(sources, mineral, controller, [], { templateSet: LAYOUT_TEMPLATES.flower, count: 3 });
+      const findPath = createBfsPathFinder(terrain);
+      let progress = runLayoutSearch(search, terrain, findPath);
+      while (!progress.done) progress = runLayoutSearch(search, terrain, findPath);
+
+      expect(progress.step).toBe(progress.total);
+
+      const storages = search.candidates.map(candidate => candidate.job.layout.storage[0].join(","));
+      expect(new Set(storages).size).toBe(3);
+
+      const best = getBestCandidate(search);
+      for (const candidate of search.candidates) {
+        expect(candidate.result).toBeDefined();
+        expect(best?.result?.score.total).toBeLessThanOrEqual(candidate.result?.score.total ?? 0);
+      }
+    });
+
+    it("最小割应该单独占用一次调用", () => {
+      const terrain = createFixedRoomTerrain();
+      const findPath = createBfsPathFinder(terrain);
+      const search = createLayoutSearch(sources, mineral, controller, [], { templateSet: LAYOUT_TEMPLATES.flower, count: 2 });
+
+      let calls = 0;
+      let progress = runLayoutSearch(search, terrain, findPath, () => false);
+      calls++;
+      while (!progress.done) {
+        // 每次调用都会在最小割之前暂停，然后在下一次调用的开头执行最小割
+        expect(search.candidates[search.index].job.step).toBeGreaterThan(0);
+        progress = runLayoutSearch(search, terrain, findPath, () => false);
+        calls++;
+      }
+
+      expect(calls).toBe(3);
+    });
+  });
 });
 
+describe("塔的距离衰减", () => {
+  it("5 格以内应该是满额", () => {
+    expect(getTowerPowerPure(TOWER_POWER_ATTACK, 1)).toBe(600);
+    expect(getTowerPowerPure(TOWER_POWER_ATTACK, 5)).toBe(600);
+  });
+
+  it("5 到 20 格之间应该线性衰减", () => {
+    expect(getTowerPowerPure(TOWER_POWER_ATTACK, 10)).toBe(450);
+    expect(getTowerPowerPure(TOWER_POWER_HEAL, 10)).toBe(300);
+  });
+
+  it("20 格及以外应该只剩 25%", () => {
+    expect(getTowerPowerPure(TOWER_POWER_ATTACK, 20)).toBe(150);
+    expect(getTowerPowerPure(TOWER_POWER_ATTACK, 40)).toBe(150);
+  });
+});
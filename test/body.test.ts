@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { buildBodyPure, getBodyCost, getMoveCount, sortBody } from "@/Creep/body";
+import { CreepRole } from "@/Creep/types";
+
+/**
+ * 统计身体中某种部件的数量
+ */
+function countPart(body: BodyPartConstant[], part: BodyPartConstant): number {
+  return body.filter(p => p === part).length;
+}
+
+describe("body 身体部件生成", () => {
+  describe("getBodyCost", () => {
+    it("应该正确计算能量消耗", () => {
+      expect(getBodyCost([WORK, CARRY, MOVE])).toBe(200);
+      expect(getBodyCost([])).toBe(0);
+    });
+  });
+
+  describe("getMoveCount", () => {
+    it("应该根据地形计算 MOVE 数量", () => {
+      expect(getMoveCount(10, "road")).toBe(5);
+      expect(getMoveCount(10, "plain")).toBe(10);
+      expect(getMoveCount(10, "swamp")).toBe(50);
+    });
+
+    it("强化过的 MOVE 应该减少所需数量", () => {
+      expect(getMoveCount(20, "plain", { [MOVE]: "XZHO2" })).toBe(5);
+      expect(getMoveCount(20, "plain", { [MOVE]: "ZO" })).toBe(10);
+    });
+
+    it("至少需要一个 MOVE", () => {
+      expect(getMoveCount(0, "road")).toBe(1);
+    });
+  });
+
+  describe("sortBody", () => {
+    it("应该把 TOUGH 放在最前，HEAL 放在 MOVE 之后，末尾保留一个 MOVE", () => {
+      const body = sortBody([HEAL, ATTACK, TOUGH], 3);
+
+      expect(body[0]).toBe(TOUGH);
+      expect(body[1]).toBe(ATTACK);
+      expect(body.slice(2)).toEqual([MOVE, MOVE, HEAL, MOVE]);
+    });
+  });
+
+  describe("buildBodyPure", () => {
+    it("应该在预算内生成身体", () => {
+      const body = buildBodyPure(CreepRole.Worker, 800);
+
+      expect(getBodyCost(body)).toBeLessThanOrEqual(800);
+      expect(countPart(body, WORK)).toBe(4);
+      expect(countPart(body, CARRY)).toBe(4);
+      expect(countPart(body, MOVE)).toBe(4);
+    });
+
+    it("预算不够一个单元时返回空数组", () => {
+      expect(buildBodyPure(CreepRole.Harvester, 100)).toEqual([]);
+    });
+
+    it("紧急情况下 200 能量也能孵化 harvester", () => {
+      expect(buildBodyPure(CreepRole.Harvester, 200)).toEqual([CARRY, WORK, MOVE]);
+    });
+
+    it("不应该超过 50 个部件", () => {
+      for (const role of Object.values(CreepRole)) {
+        expect(buildBodyPure(role, 100000).length).toBeLessThanOrEqual(50);
+      }
+    });
+
+    it("应该根据地形补齐 MOVE", () => {
+      const road = buildBodyPure(CreepRole.Manager, 10000, { terrain: "road" });
+      const plain = buildBodyPure(CreepRole.Manager, 10000, { terrain: "plain" });
+
+      expect(countPart(road, MOVE) * 2).toBeGreaterThanOrEqual(countPart(road, CARRY));
+      expect(countPart(plain, MOVE)).toBeGreaterThanOrEqual(countPart(plain, CARRY));
+    });
+
+    it("可以限制单元数量，但不能超过角色模板的上限", () => {
+      const small = buildBodyPure(CreepRole.RemoteHelper, 10000, { maxUnits: 3 });
+      const large = buildBodyPure(CreepRole.RemoteHelper, 10000, { maxUnits: 100 });
+
+      expect(countPart(small, CARRY)).toBe(6);
+      expect(countPart(large, CARRY)).toBe(32);
+    });
+
+    it("PbHealer 应该把 HEAL 放在 MOVE 后面", () => {
+      const body = buildBodyPure(CreepRole.PbHealer, 10000);
+
+      expect(countPart(body, HEAL)).toBe(25);
+      expect(body[body.length - 1]).toBe(MOVE);
+      expect(body[body.length - 2]).toBe(HEAL);
+      expect(body.indexOf(HEAL)).toBeGreaterThan(body.indexOf(MOVE));
+    });
+
+    it("强化 MOVE 后可以放下更多工作部件", () => {
+      const normal = buildBodyPure(CreepRole.PbAttacker, 10000);
+      const boosted = buildBodyPure(CreepRole.PbAttacker, 10000, { boost: { [MOVE]: "XZHO2" } });
+
+      expect(countPart(boosted, MOVE)).toBeLessThan(countPart(normal, MOVE));
+      expect(countPart(boosted, ATTACK)).toBeGreaterThanOrEqual(countPart(normal, ATTACK));
+    });
+
+    it("Defender 的 TOUGH 应该在最前面", () => {
+      const body = buildBodyPure(CreepRole.Defender, 2000);
+
+      expect(body[0]).toBe(TOUGH);
+      expect(body[1]).toBe(TOUGH);
+    });
+  });
+});
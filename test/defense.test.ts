@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  assessThreatPure,
+  classifyHostilePure,
+  dropDefenderTasksPure,
+  getDefenderCountPure,
+  HostileBody,
+  isOutgunnedPure
+} from "@/Room/defense";
+import { CreepRole } from "@/Creep/types";
+import { ThreatType } from "@/Room/types";
+
+/**
+ * 创建一个敌人，parts 中每种部件的数量
+ */
+function createHostile(owner: string, parts: { [type: string]: number }, boost?: string): HostileBody {
+  const body: HostileBody["body"] = [];
+  for (const type in parts) {
+    for (let i = 0; i < parts[type]; i++) body.push({ type: type as BodyPartConstant, boost, hits: 100 });
+  }
+  return { owner, body };
+}
+
+describe("房间防御", () => {
+  describe("classifyHostilePure", () => {
+    it("应该按身体部件和强化分类", () => {
+      expect(classifyHostilePure(createHostile("Invader", { attack: 2, move: 2 }))).toBe(ThreatType.Invader);
+      expect(classifyHostilePure(createHostile("player", { move: 1 }))).toBe(ThreatType.Scout);
+      expect(classifyHostilePure(createHostile("player", { ranged_attack: 5, move: 5 }))).toBe(ThreatType.Harasser);
+      expect(classifyHostilePure(createHostile("player", { work: 20, heal: 10, move: 20 }))).toBe(ThreatType.Siege);
+      expect(classifyHostilePure(createHostile("player", { attack: 2, move: 2 }, "UH"))).toBe(ThreatType.Siege);
+    });
+  });
+
+  describe("assessThreatPure", () => {
+    it("没有敌人时没有威胁", () => {
+      expect(assessThreatPure([], 100)).toBeUndefined();
+    });
+
+    it("应该取威胁最大的类型并累加伤害和治疗", () => {
+      const hostiles = [
+        createHostile("player", { move: 1 }),
+        createHostile("player", { attack: 2, ranged_attack: 1, move: 3 }),
+        createHostile("player", { heal: 3, move: 3 })
+      ];
+      expect(assessThreatPure(hostiles, 100)).toEqual({ type: ThreatType.Harasser, damage: 70, heal: 36, since: 100 });
+    });
+
+    it("被打坏的部件不计算在内", () => {
+      const hostile = createHostile("player", { attack: 2 });
+      hostile.body[0].hits = 0;
+      expect(assessThreatPure([hostile], 0)?.damage).toBe(30);
+    });
+  });
+
+  describe("getDefenderCountPure", () => {
+    const threat = (type: ThreatType, heal: number) => ({ type, damage: 0, heal, since: 0 });
+
+    it("侦查和塔打得过的敌人不需要 defender", () => {
+      expect(getDefenderCountPure(threat(ThreatType.Scout, 1000), 0, 300)).toBe(0);
+      expect(getDefenderCountPure(threat(ThreatType.Harasser, 100), 300, 300)).toBe(0);
+    });
+
+    it("塔打不过治疗时按照差值孵化，并且不超过上限", () => {
+      expect(getDefenderCountPure(threat(ThreatType.Harasser, 600), 300, 300)).toBe(2);
+      expect(getDefenderCountPure(threat(ThreatType.Invader, 5000), 300, 300)).toBe(4);
+    });
+
+    it("攻城时至少孵化一个", () => {
+      expect(getDefenderCountPure(threat(ThreatType.Siege, 0), 600, 300)).toBe(1);
+    });
+  });
+
+  describe("isOutgunnedPure", () => {
+    const threat = (type: ThreatType, heal: number) => ({ type, damage: 0, heal, since: 0 });
+
+    it("敌人的治疗不低于塔和 defender 的总伤害时视为被压制", () => {
+      expect(isOutgunnedPure(threat(ThreatType.Siege, 600), 300, 300)).toBe(true);
+      expect(isOutgunnedPure(threat(ThreatType.Siege, 600), 300, 600)).toBe(false);
+      expect(isOutgunnedPure(threat(ThreatType.Harasser, 0), 0, 0)).toBe(true);
+    });
+  });
+
+  describe("dropDefenderTasksPure", () => {
+    const queue = [
+      { role: CreepRole.Defender, priority: 2, memory: { targetRoom: "W1N1" } },
+      { role: CreepRole.Worker, priority: 3 },
+      { role: CreepRole.Defender, priority: 2, memory: { targetRoom: "W1N1" } }
+    ];
+
+    it("先去掉排在后面的 defender 任务，其他任务不变", () => {
+      expect(dropDefenderTasksPure(queue, 1)).toEqual([queue[0], queue[1]]);
+      expect(dropDefenderTasksPure(queue, Infinity)).toEqual([queue[1]]);
+      expect(dropDefenderTasksPure(queue, 0)).toEqual(queue);
+    });
+  });
+});
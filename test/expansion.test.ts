@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { isClaimablePure, scoreExpansionPure } from "@/Room/expansion";
+import { createIntel } from "@test/helpers";
+
+describe("扩张选址", () => {
+  it("被别人占领或者预定的房间不能占领", () => {
+    const controller = { id: "controller", pos: "20,40", level: 0 };
+    expect(isClaimablePure(createIntel(), "me")).toBe(true);
+    expect(isClaimablePure(createIntel({ controller: { ...controller, owner: "other" } }), "me")).toBe(false);
+    expect(isClaimablePure(createIntel({ controller: { ...controller, reservation: "Invader" } }), "me")).toBe(false);
+    expect(isClaimablePure(createIntel({ controller: { ...controller, reservation: "me" } }), "me")).toBe(true);
+    expect(isClaimablePure(createIntel({ controller: undefined }), "me")).toBe(false);
+  });
+
+  it("地形还没有评估或者放不下完整布局时不打分", () => {
+    expect(scoreExpansionPure(createIntel({ layout: undefined }), 1, "me", [])).toBeUndefined();
+    expect(scoreExpansionPure(createIntel({ layout: { missing: 3, ramparts: 20, score: 100 } }), 1, "me", [])).toBe(
+      undefined
+    );
+  });
+
+  it("两个能量源、新矿物、rampart 少、距离近的房间分数更高", () => {
+    const base = scoreExpansionPure(createIntel(), 2, "me", ["H"])!;
+    const oneSource = createIntel({ sources: [{ id: "source1", pos: "10,10" }] });
+
+    expect(scoreExpansionPure(oneSource, 2, "me", ["H"])!).toBeLessThan(base);
+    expect(scoreExpansionPure(createIntel(), 2, "me", []) ?? 0).toBeGreaterThan(base);
+    expect(scoreExpansionPure(createIntel({ layout: { missing: 0, ramparts: 40, score: 100 } }), 2, "me", ["H"])!).toBe(
+      base - 40
+    );
+    expect(scoreExpansionPure(createIntel(), 4, "me", ["H"])!).toBeLessThan(base);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { canEmptyOutputPure, canProducePure, chooseProductPure, getFactoryTasksPure } from "@/Room/factory";
+import { FactoryRule } from "@/Room/types";
+
+const ALL_RULES = [FactoryRule.Energy, FactoryRule.Commodity, FactoryRule.Bar, FactoryRule.Battery];
+
+describe("factory", () => {
+  describe("chooseProductPure", () => {
+    it("能量充足时压缩电池，电池囤够后不再压缩", () => {
+      expect(chooseProductPure(ALL_RULES, { energy: 400000 }, {}, undefined, 0)).toBe("battery");
+      expect(chooseProductPure(ALL_RULES, { energy: 400000, battery: 20000 }, {}, undefined, 0)).toBe(undefined);
+    });
+
+    it("能量不足时解压电池，没有电池时跳过", () => {
+      expect(chooseProductPure(ALL_RULES, { energy: 5000, battery: 100 }, {}, undefined, 0)).toBe("energy");
+      expect(chooseProductPure(ALL_RULES, { energy: 5000, U: 50000 }, {}, "U", 0)).toBe("utrium_bar");
+    });
+
+    it("按照配置的优先级选择", () => {
+      const stock = { energy: 400000, U: 50000 };
+      expect(chooseProductPure(ALL_RULES, stock, {}, "U", 0)).toBe("utrium_bar");
+      expect(chooseProductPure([FactoryRule.Battery, FactoryRule.Bar], stock, {}, "U", 0)).toBe("battery");
+    });
+
+    it("有等级的 factory 生产对应等级的商品，原料可以已经在 factory 中", () => {
+      const stock = { energy: 200000, zynthium_bar: 100 };
+      expect(chooseProductPure(ALL_RULES, stock, { utrium_bar: 20 }, undefined, 1)).toBe("composite");
+      expect(chooseProductPure(ALL_RULES, stock, {}, undefined, 1)).toBe(undefined);
+    });
+  });
+
+  describe("canProducePure", () => {
+    it("等级不符或者原料不够一批时不能生产", () => {
+      const stock = { utrium_bar: 20, zynthium_bar: 20, energy: 20 };
+      expect(canProducePure("composite", 1, stock)).toBe(true);
+      expect(canProducePure("composite", 2, stock)).toBe(false);
+      expect(canProducePure("battery", 3, { energy: 599 })).toBe(false);
+    });
+  });
+
+  describe("getFactoryTasksPure", () => {
+    it("先搬走积攒的产物和用不上的资源，再补充原料", () => {
+      expect(
+        getFactoryTasksPure("f", { utrium_bar: 1000, battery: 30, U: 100 }, "utrium_bar", { U: 3000, energy: 500 })
+      ).toEqual([
+        { type: "empty", target: "f", resource: "utrium_bar", amount: 1000 },
+        { type: "empty", target: "f", resource: "battery", amount: 30 },
+        { type: "fill", target: "f", resource: "U", amount: 3000 },
+        { type: "fill", target: "f", resource: "energy", amount: 500 }
+      ]);
+    });
+
+    it("原料足够时不补充，产物较少时不搬走", () => {
+      expect(getFactoryTasksPure("f", { energy: 1500, battery: 100 }, "battery", { energy: 10000 })).toEqual([]);
+    });
+
+    it("没有生产目标时清空 factory", () => {
+      expect(getFactoryTasksPure("f", { energy: 100 }, undefined, {})).toEqual([
+        { type: "empty", target: "f", resource: "energy", amount: 100 }
+      ]);
+    });
+  });
+
+  describe("canEmptyOutputPure", () => {
+    it("terminal 和 storage 都没有空间、没有 manager 或者产物积压时不生产", () => {
+      expect(canEmptyOutputPure(100000, 1, 0, 1000, 50)).toBe(true);
+      expect(canEmptyOutputPure(1000, 1, 0, 1000, 50)).toBe(false);
+      expect(canEmptyOutputPure(100000, 0, 0, 1000, 50)).toBe(false);
+      expect(canEmptyOutputPure(100000, 1, 5000, 1000, 50)).toBe(false);
+      expect(canEmptyOutputPure(100000, 1, 0, 10, 50)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { RoomIntel } from "@/Room/types";
+
+/**
+ * 创建一份可以占领或者作为外矿的房间情报
+ */
+export function createIntel(overrides: Partial<RoomIntel> = {}): RoomIntel {
+  return {
+    time: 0,
+    sources: [
+      { id: "source1", pos: "10,10" },
+      { id: "source2", pos: "40,40" }
+    ],
+    mineral: { id: "mineral", pos: "42,15", type: "H" as MineralConstant },
+    controller: { id: "controller", pos: "20,40", level: 0 },
+    hostileStructures: {},
+    layout: { missing: 0, ramparts: 20, score: 100 },
+    ...overrides
+  };
+}
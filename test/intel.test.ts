@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { getRoomNamePure, getRoomsInRangePure, parseRoomNamePure } from "@/Room/intel";
+
+describe("房间名解析", () => {
+  it("W0 和 E0、N0 和 S0 之间应该没有空隙", () => {
+    expect(parseRoomNamePure("W0N0")).toEqual([-1, -1]);
+    expect(parseRoomNamePure("E0S0")).toEqual([0, 0]);
+    expect(parseRoomNamePure("W12S3")).toEqual([-13, 3]);
+  });
+
+  it("格式错误的房间名应该返回 undefined", () => {
+    expect(parseRoomNamePure("sim")).toBeUndefined();
+  });
+
+  it("坐标和房间名应该可以互相转换", () => {
+    for (const name of ["W0N0", "E0S0", "W5N10", "E21S7"]) {
+      const [x, y] = parseRoomNamePure(name)!;
+      expect(getRoomNamePure(x, y)).toBe(name);
+    }
+  });
+
+  it("应该返回范围内除了中心以外的所有房间", () => {
+    const rooms = getRoomsInRangePure("E0N0", 1);
+    expect(rooms).toHaveLength(8);
+    expect(rooms).toContain("W0N1");
+    expect(rooms).toContain("E1S0");
+    expect(rooms).not.toContain("E0N0");
+  });
+});
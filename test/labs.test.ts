@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { chooseInputLabsPure, getLabTasksPure, getReagentsPure, LabState, planReactionPure } from "@/Room/labs";
+import { LabMemory, ReactionStage } from "@/Room/types";
+
+/**
+ * 布局规划中 lab 集群的形状
+ */
+const LAB_CLUSTER = [
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [-1, 0],
+  [0, 0],
+  [1, 0],
+  [-1, 1],
+  [0, 1],
+  [1, 1],
+  [0, 2]
+].map(([x, y]) => ({ x: 25 + x, y: 25 + y }));
+
+/**
+ * 创建一个 lab
+ */
+function createLab(id: string, mineralType?: ResourceConstant, mineralAmount = 0, energy = 0): LabState {
+  return { id, mineralType, mineralAmount, energy };
+}
+
+describe("lab", () => {
+  describe("chooseInputLabsPure", () => {
+    it("lab 集群中的其他 lab 都应该在两个输入 lab 的范围内", () => {
+      const inputs = chooseInputLabsPure(LAB_CLUSTER);
+      expect(inputs).toBeDefined();
+      const [a, b] = (inputs as [number, number]).map(i => LAB_CLUSTER[i]);
+      for (const lab of LAB_CLUSTER) {
+        if (lab === a || lab === b) continue;
+        expect(Math.max(Math.abs(lab.x - a.x), Math.abs(lab.y - a.y))).toBeLessThanOrEqual(2);
+        expect(Math.max(Math.abs(lab.x - b.x), Math.abs(lab.y - b.y))).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it("lab 不足 3 个时不选择", () => {
+      expect(chooseInputLabsPure(LAB_CLUSTER.slice(0, 2))).toBeUndefined();
+    });
+  });
+
+  describe("planReactionPure", () => {
+    it("应该能找到化合物的原料", () => {
+      expect(getReagentsPure("GH2O")).toEqual(["GH", "OH"]);
+      expect(getReagentsPure("H")).toBeUndefined();
+    });
+
+    it("应该先生产缺少的原料", () => {
+      const stock = { Z: 1000, K: 1000, U: 1000, L: 1000, H: 1000 };
+      expect(planReactionPure("GH", 500, stock)).toEqual({ product: "ZK", reagents: ["Z", "K"], amount: 500 });
+      expect(planReactionPure("GH", 500, { ...stock, ZK: 500, UL: 500 })).toEqual({
+        product: "G",
+        reagents: ["ZK", "UL"],
+        amount: 500
+      });
+    });
+
+    it("原料足够时生产目标本身，数量按反应量取整", () => {
+      expect(planReactionPure("OH", 3000, { H: 1002, O: 2000 })).toEqual({
+        product: "OH",
+        reagents: ["H", "O"],
+        amount: 1000
+      });
+    });
+
+    it("库存足够或者缺少基础矿物时不反应", () => {
+      expect(planReactionPure("OH", 1000, { OH: 1000 })).toBeUndefined();
+      expect(planReactionPure("OH", 1000, { H: 1000 })).toBeUndefined();
+    });
+  });
+
+  describe("getLabTasksPure", () => {
+    const memory: LabMemory = {
+      inputs: ["in1", "in2"],
+      stage: ReactionStage.Fill,
+      reaction: { product: "OH", reagents: ["H", "O"], amount: 1000 }
+    };
+
+    it("填充阶段补足输入 lab 的原料，不超过库存", () => {
+      const labs = [createLab("in1", "H", 400), createLab("in2"), createLab("out")];
+      expect(getLabTasksPure(labs, memory, { H: 5000, O: 300 })).toEqual([
+        { type: "fill", target: "in1", resource: "H", amount: 600 },
+        { type: "fill", target: "in2", resource: "O", amount: 300 }
+      ]);
+    });
+
+    it("清空错误的原料和不是产物的资源", () => {
+      const labs = [createLab("in1", "O", 100), createLab("in2", "O", 1000), createLab("out", "UH", 30)];
+      expect(getLabTasksPure(labs, { ...memory, stage: ReactionStage.React }, {})).toEqual([
+        { type: "empty", target: "in1", resource: "O", amount: 100 },
+        { type: "empty", target: "out", resource: "UH", amount: 30 }
+      ]);
+    });
+
+    it("清空阶段清空所有 lab，强化 lab 准备化合物和能量", () => {
+      const labs = [createLab("in1", "H", 5), createLab("out", "OH", 995), createLab("boost", "OH", 10)];
+      const boost = { creep: "a", since: 0, labs: { boost: { compound: "UH" as const, amount: 300, energy: 200 } } };
+      expect(
+        getLabTasksPure(labs, { ...memory, stage: ReactionStage.Empty, boost }, { UH: 1000, energy: 1000 })
+      ).toEqual([
+        { type: "empty", target: "in1", resource: "H", amount: 5 },
+        { type: "empty", target: "out", resource: "OH", amount: 995 },
+        { type: "empty", target: "boost", resource: "OH", amount: 10 },
+        { type: "fill", target: "boost", resource: "energy", amount: 200 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { createEmptyLayout } from "@/Room/autoPlanner";
+import { LAYOUT_VERSION, packPlan, packPositions, RoomPlan, unpackPlan, unpackPositions } from "@/Room/layoutStore";
+
+describe("layoutStore 布局压缩", () => {
+  describe("packPositions / unpackPositions", () => {
+    it("每个坐标应该压缩成一个字符", () => {
+      expect(packPositions([[0, 0], [49, 49], [10, 20]])).toHaveLength(3);
+    });
+
+    it("应该可以还原坐标", () => {
+      const positions: [number, number][] = [[0, 0], [49, 49], [10, 20], [1, 48]];
+      expect(unpackPositions(packPositions(positions))).toEqual(positions);
+    });
+
+    it("压缩结果不应该包含需要 JSON 转义的字符", () => {
+      const positions: [number, number][] = [];
+      for (let x = 0; x < 50; x++) {
+        for (let y = 0; y < 50; y++) positions.push([x, y]);
+      }
+      const packed = packPositions(positions);
+      expect(JSON.stringify(packed)).toBe(`"${packed}"`);
+    });
+  });
+
+  describe("packPlan / unpackPlan", () => {
+    const createPlan = (): RoomPlan => {
+      const layout = createEmptyLayout();
+      layout.storage.push([25, 25]);
+      layout.extension.push([20, 20], [21, 20], [22, 20]);
+      layout.road.push([24, 24], [23, 23]);
+      return { layout, rampart: [[10, 10], [10, 11]] };
+    };
+
+    it("应该带上版本号", () => {
+      expect(packPlan(createPlan()).startsWith(`v${LAYOUT_VERSION}|`)).toBe(true);
+    });
+
+    it("应该可以还原完整的规划", () => {
+      const plan = createPlan();
+      expect(unpackPlan(packPlan(plan))).toEqual(plan);
+    });
+
+    it("版本号不匹配时应该返回 undefined", () => {
+      const packed = packPlan(createPlan()).replace(`v${LAYOUT_VERSION}`, `v${LAYOUT_VERSION + 1}`);
+      expect(unpackPlan(packed)).toBeUndefined();
+    });
+
+    it("遇到未知的建筑代号时应该返回 undefined", () => {
+      expect(unpackPlan(`v${LAYOUT_VERSION}|?abc`)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { LinkState, LinkType, planLinkTransfersPure } from "@/Room/links";
+
+/**
+ * 创建一个 link
+ */
+function createLink(id: string, type: LinkType, energy: number, cooldown = 0): LinkState {
+  return { id, type, energy, cooldown };
+}
+
+describe("link 网络", () => {
+  it("controller link 缺能量时优先补给 controller link", () => {
+    const links = [
+      createLink("source", LinkType.Source, 800),
+      createLink("controller", LinkType.Controller, 100),
+      createLink("hub", LinkType.Hub, 0)
+    ];
+    expect(planLinkTransfersPure(links)).toEqual([{ from: "source", to: "controller", amount: 700 }]);
+  });
+
+  it("controller link 能量充足时送往 hub link", () => {
+    const links = [
+      createLink("source", LinkType.Source, 800),
+      createLink("controller", LinkType.Controller, 600),
+      createLink("hub", LinkType.Hub, 200)
+    ];
+    expect(planLinkTransfersPure(links)).toEqual([{ from: "source", to: "hub", amount: 600 }]);
+  });
+
+  it("能量不足或者冷却中的 source link 不发送", () => {
+    const links = [
+      createLink("a", LinkType.Source, 300),
+      createLink("b", LinkType.Source, 800, 3),
+      createLink("hub", LinkType.Hub, 0)
+    ];
+    expect(planLinkTransfersPure(links)).toEqual([]);
+  });
+
+  it("多个 source link 不会让同一个 link 溢出", () => {
+    const links = [
+      createLink("a", LinkType.Source, 800),
+      createLink("b", LinkType.Source, 800),
+      createLink("controller", LinkType.Controller, 0),
+      createLink("hub", LinkType.Hub, 0)
+    ];
+    expect(planLinkTransfersPure(links)).toEqual([
+      { from: "a", to: "controller", amount: 800 },
+      { from: "b", to: "hub", amount: 800 }
+    ]);
+  });
+
+  it("没有 source link 补给时由 hub link 补给 controller link", () => {
+    const links = [createLink("controller", LinkType.Controller, 0), createLink("hub", LinkType.Hub, 500)];
+    expect(planLinkTransfersPure(links)).toEqual([{ from: "hub", to: "controller", amount: 500 }]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { planPowerBankPure, shouldSendCarriersPure } from "@/Room/powerBank";
+
+/**
+ * 创建一个 power bank
+ */
+function createBank(overrides: Partial<Parameters<typeof planPowerBankPure>[0]> = {}) {
+  return { power: 3000, hits: 2000000, freeSpots: 8, ticksToDecay: 5000, ...overrides };
+}
+
+describe("power bank", () => {
+  describe("planPowerBankPure", () => {
+    it("power 太少或者治疗跟不上反伤时不采集", () => {
+      expect(planPowerBankPure(createBank({ power: 500 }), 300, 600, 300, 1250)).toBeUndefined();
+      expect(planPowerBankPure(createBank(), 300, 600, 200, 1250)).toBeUndefined();
+    });
+
+    it("使用能在寿命内打掉的最少小组数", () => {
+      // 一个小组需要 3334 tick，两个小组需要 1667 tick，三个小组需要 1112 tick
+      expect(planPowerBankPure(createBank(), 300, 600, 300, 1250)).toEqual({
+        pairs: 3,
+        carriers: 3,
+        attackTicks: 1112
+      });
+      expect(planPowerBankPure(createBank({ hits: 500000 }), 300, 600, 300, 1250)?.pairs).toBe(1);
+    });
+
+    it("空位不够或者来不及在消失前打掉时不采集", () => {
+      expect(planPowerBankPure(createBank({ freeSpots: 2 }), 300, 600, 300, 1250)).toBeUndefined();
+      expect(planPowerBankPure(createBank({ ticksToDecay: 1000 }), 300, 600, 300, 1250)).toBeUndefined();
+    });
+  });
+
+  describe("shouldSendCarriersPure", () => {
+    it("剩余的攻击时间不超过 carrier 的路程时派出", () => {
+      expect(shouldSendCarriersPure(600000, 1800, 300)).toBe(true);
+      expect(shouldSendCarriersPure(1200000, 1800, 300)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { getRampartTargetHitsPure } from "@/Room/rampart";
+
+describe("rampart 目标血量", () => {
+  it("低等级房间不需要加固 rampart", () => {
+    expect(getRampartTargetHitsPure(1, 0)).toBe(0);
+    expect(getRampartTargetHitsPure(3, 500000)).toBe(0);
+  });
+
+  it("目标血量应该随等级提高", () => {
+    expect(getRampartTargetHitsPure(5, 0)).toBeGreaterThan(getRampartTargetHitsPure(4, 0));
+    expect(getRampartTargetHitsPure(8, 0)).toBeGreaterThan(getRampartTargetHitsPure(7, 0));
+  });
+
+  it("目标血量应该随 storage 能量提高", () => {
+    expect(getRampartTargetHitsPure(6, 300000)).toBeGreaterThan(getRampartTargetHitsPure(6, 50000));
+  });
+
+  it("不应该超过当前等级的 rampart 血量上限", () => {
+    expect(getRampartTargetHitsPure(4, 10000000)).toBe(RAMPART_HITS_MAX[4]);
+  });
+});
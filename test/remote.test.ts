@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { getHaulerPlanPure, getNetEnergyPure, getSourceEnergyPure, isRemoteUsablePure } from "@/Room/remote";
+import { createIntel } from "@test/helpers";
+
+describe("外矿", () => {
+  describe("isRemoteUsablePure", () => {
+    it("没有被占领的房间可以作为外矿", () => {
+      expect(isRemoteUsablePure(createIntel(), "me")).toBe(true);
+    });
+
+    it("被别人占领、预定或者有 invader core 的房间不能作为外矿", () => {
+      const controller = { id: "controller", pos: "20,40", level: 0 };
+      expect(isRemoteUsablePure(createIntel({ controller: { ...controller, owner: "other" } }), "me")).toBe(false);
+      expect(isRemoteUsablePure(createIntel({ controller: { ...controller, reservation: "other" } }), "me")).toBe(
+        false
+      );
+      expect(isRemoteUsablePure(createIntel({ controller: { ...controller, reservation: "me" } }), "me")).toBe(true);
+      expect(isRemoteUsablePure(createIntel({ hostileStructures: { invaderCore: 1 } }), "me")).toBe(false);
+    });
+
+    it("没有控制器的房间（例如过道和 source keeper 房间）不能作为外矿", () => {
+      expect(isRemoteUsablePure(createIntel({ controller: undefined }), "me")).toBe(false);
+    });
+  });
+
+  describe("getSourceEnergyPure", () => {
+    it("没有预定的能量源只有一半的产量", () => {
+      expect(getSourceEnergyPure(true)).toBe(10);
+      expect(getSourceEnergyPure(false)).toBe(5);
+    });
+  });
+
+  describe("getHaulerPlanPure", () => {
+    it("CARRY 总量应该能运走来回一趟时间内的产出", () => {
+      // 10 能量/tick，单程 50 格，来回 100 tick 产出 1000 能量，需要 20 个 CARRY，另加 1 个余量
+      expect(getHaulerPlanPure(50, 32, 10)).toEqual({ count: 1, carry: 21 });
+    });
+
+    it("超过单个运输者的容量时应该平均分给多个运输者", () => {
+      const plan = getHaulerPlanPure(100, 16, 10);
+      expect(plan.count).toBe(3);
+      expect(plan.carry * plan.count).toBeGreaterThanOrEqual(41);
+      expect(plan.carry).toBeLessThanOrEqual(16);
+    });
+
+    it("孵化不出运输者时不需要运输者", () => {
+      expect(getHaulerPlanPure(50, 0, 10)).toEqual({ count: 0, carry: 0 });
+    });
+  });
+
+  describe("getNetEnergyPure", () => {
+    it("应该扣除按寿命平摊的孵化成本", () => {
+      const harvester: BodyPartConstant[] = [WORK, WORK, WORK, CARRY, MOVE, MOVE, MOVE];
+      const reserver: BodyPartConstant[] = [CLAIM, MOVE];
+      // 运回 15000 能量 / 1500 tick = 10，harvester 500 / 1500，reserver 650 / 600
+      expect(getNetEnergyPure(15000, 1500, [harvester, reserver])).toBeCloseTo(10 - 500 / 1500 - 650 / 600);
+    });
+  });
+});
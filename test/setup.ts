@@ -7,5 +7,122 @@
 (global as any).STRUCTURE_TOWER = "tower";
 (global as any).STRUCTURE_EXTENSION = "extension";
 (global as any).STRUCTURE_OBSERVER = "observer";
+(global as any).STRUCTURE_SPAWN = "spawn";
+(global as any).STRUCTURE_TERMINAL = "terminal";
+(global as any).STRUCTURE_FACTORY = "factory";
+(global as any).STRUCTURE_POWER_SPAWN = "powerSpawn";
+(global as any).STRUCTURE_NUKER = "nuker";
+(global as any).STRUCTURE_ROAD = "road";
+(global as any).STRUCTURE_CONTAINER = "container";
+(global as any).STRUCTURE_EXTRACTOR = "extractor";
+(global as any).STRUCTURE_RAMPART = "rampart";
+(global as any).CONTROLLER_STRUCTURES = {
+  spawn: { 8: 3 },
+  extension: { 8: 60 },
+  link: { 8: 6 },
+  road: { 8: 2500 },
+  constructedWall: { 8: 2500 },
+  rampart: { 8: 2500 },
+  storage: { 8: 1 },
+  tower: { 8: 6 },
+  observer: { 8: 1 },
+  powerSpawn: { 8: 1 },
+  extractor: { 8: 1 },
+  terminal: { 8: 1 },
+  lab: { 8: 10 },
+  container: { 8: 5 },
+  nuker: { 8: 1 },
+  factory: { 8: 1 }
+};
 (global as any).TERRAIN_MASK_WALL = 1;
 
+(global as any).MOVE = "move";
+(global as any).WORK = "work";
+(global as any).CARRY = "carry";
+(global as any).ATTACK = "attack";
+(global as any).RANGED_ATTACK = "ranged_attack";
+(global as any).TOUGH = "tough";
+(global as any).HEAL = "heal";
+(global as any).CLAIM = "claim";
+(global as any).BODYPART_COST = {
+  move: 50,
+  work: 100,
+  attack: 80,
+  carry: 50,
+  heal: 250,
+  ranged_attack: 150,
+  tough: 10,
+  claim: 600
+};
+(global as any).MAX_CREEP_SIZE = 50;
+(global as any).BOOSTS = {
+  move: { ZO: { fatigue: 2 }, ZHO2: { fatigue: 3 }, XZHO2: { fatigue: 4 } }
+};
+(global as any).RAMPART_HITS_MAX = {
+  2: 300000,
+  3: 1000000,
+  4: 3000000,
+  5: 10000000,
+  6: 30000000,
+  7: 100000000,
+  8: 300000000
+};
+(global as any).TOWER_POWER_ATTACK = 600;
+(global as any).TOWER_POWER_HEAL = 400;
+(global as any).TOWER_POWER_REPAIR = 800;
+(global as any).TOWER_OPTIMAL_RANGE = 5;
+(global as any).TOWER_FALLOFF_RANGE = 20;
+(global as any).TOWER_FALLOFF = 0.75;
+(global as any).STRUCTURE_INVADER_CORE = "invaderCore";
+(global as any).SOURCE_ENERGY_CAPACITY = 3000;
+(global as any).SOURCE_ENERGY_NEUTRAL_CAPACITY = 1500;
+(global as any).ENERGY_REGEN_TIME = 300;
+(global as any).CARRY_CAPACITY = 50;
+(global as any).CREEP_LIFE_TIME = 1500;
+(global as any).CREEP_CLAIM_LIFE_TIME = 600;
+(global as any).ATTACK_POWER = 30;
+(global as any).HEAL_POWER = 12;
+(global as any).POWER_BANK_HIT_BACK = 0.5;
+(global as any).RANGED_HEAL_POWER = 4;
+(global as any).RANGED_ATTACK_POWER = 10;
+(global as any).DISMANTLE_POWER = 50;
+(global as any).LINK_CAPACITY = 800;
+(global as any).RESOURCE_ENERGY = "energy";
+(global as any).LAB_REACTION_AMOUNT = 5;
+(global as any).REACTIONS = {
+  H: { O: "OH", G: "GH" },
+  O: { H: "OH" },
+  Z: { K: "ZK" },
+  K: { Z: "ZK" },
+  U: { L: "UL" },
+  L: { U: "UL" },
+  ZK: { UL: "G" },
+  UL: { ZK: "G" },
+  G: { H: "GH" },
+  GH: { OH: "GH2O" },
+  OH: { GH: "GH2O" }
+};
+(global as any).RESOURCE_HYDROGEN = "H";
+(global as any).RESOURCE_OXYGEN = "O";
+(global as any).RESOURCE_UTRIUM = "U";
+(global as any).RESOURCE_LEMERGIUM = "L";
+(global as any).RESOURCE_KEANIUM = "K";
+(global as any).RESOURCE_ZYNTHIUM = "Z";
+(global as any).RESOURCE_CATALYST = "X";
+(global as any).RESOURCE_BATTERY = "battery";
+(global as any).RESOURCE_REDUCTANT = "reductant";
+(global as any).RESOURCE_OXIDANT = "oxidant";
+(global as any).RESOURCE_UTRIUM_BAR = "utrium_bar";
+(global as any).RESOURCE_LEMERGIUM_BAR = "lemergium_bar";
+(global as any).RESOURCE_KEANIUM_BAR = "keanium_bar";
+(global as any).RESOURCE_ZYNTHIUM_BAR = "zynthium_bar";
+(global as any).RESOURCE_PURIFIER = "purifier";
+(global as any).RESOURCE_COMPOSITE = "composite";
+(global as any).RESOURCE_CRYSTAL = "crystal";
+(global as any).RESOURCE_LIQUID = "liquid";
+(global as any).COMMODITIES = {
+  battery: { amount: 50, cooldown: 10, components: { energy: 600 } },
+  energy: { amount: 500, cooldown: 10, components: { battery: 50 } },
+  utrium_bar: { amount: 100, cooldown: 20, components: { U: 500, energy: 200 } },
+  composite: { level: 1, amount: 20, cooldown: 50, components: { utrium_bar: 20, zynthium_bar: 20, energy: 20 } }
+};
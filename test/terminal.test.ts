@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAveragePricePure,
+  getBaseMineralNeedsPure,
+  getTerminalTasksPure,
+  isPriceSanePure,
+  planTransferPure,
+  pushHistoryPure
+} from "@/Room/terminal";
+import { TradeLog } from "@/Room/types";
+
+describe("terminal", () => {
+  describe("planTransferPure", () => {
+    it("多出最多的房间转给缺得最多的房间", () => {
+      const stocks = {
+        W1N1: { amount: 50000, demand: 5000 },
+        W2N1: { amount: 8000, demand: 5000 },
+        W3N1: { amount: 1000, demand: 5000 }
+      };
+      expect(planTransferPure(stocks)).toEqual({ from: "W1N1", to: "W3N1", amount: 4000 });
+    });
+
+    it("差额太小或者没有房间多出时不转移", () => {
+      expect(planTransferPure({ W1N1: { amount: 5500, demand: 5000 }, W2N1: { amount: 0, demand: 5000 } })).toBe(
+        undefined
+      );
+      expect(planTransferPure({ W1N1: { amount: 5000, demand: 5000 }, W2N1: { amount: 0, demand: 5000 } })).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe("getTerminalTasksPure", () => {
+    it("从 storage 搬入能量储备和超过保留数量的部分", () => {
+      expect(getTerminalTasksPure("t", {}, { energy: 150000 }, { energy: 100000 })).toEqual([
+        { type: "fill", target: "t", resource: "energy", amount: 30000 }
+      ]);
+      // 能量不够保留数量时仍然保证运费
+      expect(getTerminalTasksPure("t", { energy: 5000 }, { energy: 50000 }, { energy: 100000 })).toEqual([
+        { type: "fill", target: "t", resource: "energy", amount: 15000 }
+      ]);
+    });
+
+    it("要卖出或转移的资源最多搬入一次交易的数量", () => {
+      expect(getTerminalTasksPure("t", {}, { H: 90000 }, { H: 60000 })).toEqual([
+        { type: "fill", target: "t", resource: "H", amount: 10000 }
+      ]);
+    });
+
+    it("terminal 中已经足够或者差额太小时不搬运", () => {
+      expect(getTerminalTasksPure("t", { H: 9500 }, { H: 70000 }, { H: 60000 })).toEqual([]);
+      expect(getTerminalTasksPure("t", { O: 1000 }, { O: 4000 }, { O: 5000 })).toEqual([]);
+    });
+  });
+
+  describe("getBaseMineralNeedsPure", () => {
+    it("应该拆解到基础矿物并扣除已有的中间产物", () => {
+      expect(getBaseMineralNeedsPure("GH", 1000, {})).toEqual({ Z: 1000, K: 1000, U: 1000, L: 1000, H: 1000 });
+      expect(getBaseMineralNeedsPure("GH", 1000, { G: 600 })).toEqual({ Z: 400, K: 400, U: 400, L: 400, H: 1000 });
+    });
+  });
+
+  describe("价格检查", () => {
+    it("均价按成交量加权，没有成交时没有均价", () => {
+      expect(
+        getAveragePricePure([
+          { avgPrice: 1, volume: 100 },
+          { avgPrice: 2, volume: 300 }
+        ])
+      ).toBe(1.75);
+      expect(getAveragePricePure([])).toBeUndefined();
+    });
+
+    it("卖出不能太便宜，买入不能太贵", () => {
+      expect(isPriceSanePure(0.95, 1, "sell")).toBe(true);
+      expect(isPriceSanePure(0.8, 1, "sell")).toBe(false);
+      expect(isPriceSanePure(1.05, 1, "buy")).toBe(true);
+      expect(isPriceSanePure(1.2, 1, "buy")).toBe(false);
+      expect(isPriceSanePure(1, undefined, "sell")).toBe(false);
+    });
+  });
+
+  it("交易记录超过上限时丢弃最旧的", () => {
+    const history: TradeLog[] = [];
+    for (let time = 0; time < 5; time++) {
+      pushHistoryPure(history, { time, type: "send", room: "W1N1", resource: "energy", amount: 1000 }, 3);
+    }
+    expect(history.map(log => log.time)).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { chooseAttackTargetPure, getIncomingHealPure, HostileInfo } from "@/Room/tower";
+
+/**
+ * 创建一个敌人
+ */
+function createHostile(id: string, x: number, y: number, healParts = 0, damageRatio = 1): HostileInfo {
+  return { id, x, y, heal: healParts * HEAL_POWER, rangedHeal: healParts * RANGED_HEAL_POWER, damageRatio };
+}
+
+describe("塔的目标选择", () => {
+  it("治疗量应该区分相邻和远程", () => {
+    const target = createHostile("a", 10, 10, 1);
+    const hostiles = [
+      target,
+      createHostile("b", 11, 11, 2),
+      createHostile("c", 13, 10, 5),
+      createHostile("d", 20, 20, 10)
+    ];
+    // 自己 12 + 相邻 24 + 远程 20
+    expect(getIncomingHealPure(target, hostiles)).toBe(56);
+  });
+
+  it("应该集火扣除治疗后伤害最多的敌人", () => {
+    const towers = [{ x: 10, y: 10 }];
+    const healer = createHostile("healer", 12, 10, 10);
+    const attacker = createHostile("attacker", 15, 10);
+    const far = createHostile("far", 30, 10);
+    expect(chooseAttackTargetPure(towers, [healer, attacker, far])).toBe("attacker");
+  });
+
+  it("强化过的 TOUGH 应该降低伤害", () => {
+    const towers = [{ x: 10, y: 10 }];
+    expect(chooseAttackTargetPure(towers, [createHostile("tough", 11, 10, 0, 0.3), createHostile("far", 25, 10)])).toBe(
+      "far"
+    );
+  });
+
+  it("治疗能抵消塔的伤害时不攻击", () => {
+    const towers = [{ x: 10, y: 10 }];
+    expect(chooseAttackTargetPure(towers, [createHostile("a", 30, 10, 10), createHostile("b", 30, 11, 10)])).toBe(
+      undefined
+    );
+  });
+});